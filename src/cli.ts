@@ -0,0 +1,210 @@
+import { parseArgs } from 'node:util';
+
+import { select } from '@inquirer/prompts';
+
+import { FACTORS, findFactor, type FactorEntry } from './factors';
+import { findScenario, type Scenario } from './harness';
+import { usageTracker, type UsageRecord } from './usage';
+
+// 🖥️ FACTOR CLI
+//   pnpm cli                                         pick a factor and scenario interactively
+//   pnpm cli list [factor]                           list factors and their scenarios
+//   pnpm cli run <factor> [scenario...] [options]    run one or more scenarios (all when none are named)
+//   pnpm cli verify [factor...] [options]            run every scenario offline and report failed expectations
+
+const USAGE = `Usage:
+  pnpm cli                                       Pick a factor and scenario interactively
+  pnpm cli list [factor]                         List factors and their scenarios
+  pnpm cli run <factor> [scenario...]            Run scenarios (all of the factor's when none are named)
+  pnpm cli verify [factor...]                    Run every scenario (of all factors when none are named) and
+                                                 check its expectations; uses the mock model unless --model is set
+
+Options:
+  --model <provider:model-id>   Model for this run, e.g. mock or groq:llama-3.3-70b-versatile (overrides MODEL)
+  --json                        Print results as JSON on stdout; demo output goes to stderr
+  --trace <path>                Append trace events (agent, tool and step events) to a JSONL file (overrides TRACE_FILE)
+  --inspect <path>              Append every model request, as the provider receives it, to a JSONL file
+                                (overrides INSPECT_REQUESTS_FILE)
+  -h, --help                    Show this help`;
+
+export interface ScenarioResult {
+  factor: string;
+  scenario: string;
+  ok: boolean;
+  durationMs: number;
+  result?: unknown;
+  error?: string;
+  usage: UsageRecord[];
+}
+
+async function runScenarios(factor: FactorEntry, scenarios: Scenario[], json: boolean): Promise<ScenarioResult[]> {
+  const results: ScenarioResult[] = [];
+  const log = console.log;
+
+  // Keep stdout clean for the JSON report
+  if (json) console.log = console.error;
+
+  try {
+    for (const scenario of scenarios) {
+      console.log(`\n▶️  ${factor.id} › ${scenario.name}: ${scenario.description}`);
+
+      const usageBefore = usageTracker.getRecords().length;
+      const start = Date.now();
+      const outcome: Pick<ScenarioResult, 'ok' | 'result' | 'error'> = { ok: true };
+
+      try {
+        outcome.result = await scenario.run();
+      } catch (error) {
+        outcome.ok = false;
+        outcome.error = error instanceof Error ? error.message : String(error);
+        console.error(`❌ ${factor.id} › ${scenario.name} failed: ${outcome.error}`);
+      }
+
+      results.push({
+        factor: factor.id,
+        scenario: scenario.name,
+        durationMs: Date.now() - start,
+        ...outcome,
+        usage: usageTracker.getRecords().slice(usageBefore),
+      });
+    }
+  } finally {
+    console.log = log;
+  }
+
+  return results;
+}
+
+async function listFactors(name: string | undefined) {
+  // Listing imports the factors but never calls a model, so it should not need API keys
+  process.env.MODEL ||= 'mock';
+
+  for (const factor of name ? [findFactor(name)] : FACTORS) {
+    const { scenarios } = await factor.load();
+
+    console.log(`\n${factor.id}  ${factor.title}`);
+    for (const scenario of scenarios) {
+      console.log(`   ${scenario.name.padEnd(24)} ${scenario.description}`);
+    }
+  }
+}
+
+// Runs all scenarios of the given factors and prints one line per scenario, so CI logs show what failed
+async function verifyFactors(names: string[], json: boolean): Promise<ScenarioResult[]> {
+  // Verification must run offline and reproducibly: the mock model replays src/fixtures/mock-model.json
+  process.env.MODEL ||= 'mock';
+
+  const results: ScenarioResult[] = [];
+  for (const factor of names.length > 0 ? names.map(name => findFactor(name)) : FACTORS) {
+    const { scenarios } = await factor.load();
+    results.push(...(await runScenarios(factor, scenarios, json)));
+  }
+
+  const failed = results.filter(result => !result.ok);
+  const report = json ? console.error : console.log;
+
+  report(`\n${'='.repeat(60)}`);
+  report('🎯 Verification Summary');
+  report(`${'='.repeat(60)}`);
+  for (const result of results) {
+    report(`${result.ok ? '✅' : '❌'} ${result.factor} › ${result.scenario}${result.error ? `: ${result.error}` : ''}`);
+  }
+  report(`\n${results.length - failed.length}/${results.length} scenarios passed`);
+
+  return results;
+}
+
+async function pickScenarios(): Promise<{ factor: FactorEntry; scenarios: Scenario[] }> {
+  const factor = await select({
+    message: 'Factor',
+    choices: FACTORS.map(entry => ({ name: `${entry.id}  ${entry.title}`, value: entry })),
+    pageSize: FACTORS.length,
+  });
+  const { scenarios } = await factor.load();
+
+  const picked = await select<Scenario | undefined>({
+    message: 'Scenario',
+    choices: [
+      { name: 'All scenarios', value: undefined },
+      ...scenarios.map(scenario => ({ name: scenario.name, value: scenario, description: scenario.description })),
+    ],
+  });
+
+  return { factor, scenarios: picked ? [picked] : scenarios };
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      json: { type: 'boolean', default: false },
+      model: { type: 'string' },
+      trace: { type: 'string' },
+      inspect: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  const [command, factorName, ...scenarioNames] = positionals;
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  // Must be set before the first factor import: src/model.ts, src/trace.ts and src/inspect.ts read them when they load
+  if (values.model) {
+    process.env.MODEL = values.model;
+  }
+  if (values.trace) {
+    process.env.TRACE_FILE = values.trace;
+  }
+  if (values.inspect) {
+    process.env.INSPECT_REQUESTS_FILE = values.inspect;
+  }
+
+  if (command === 'verify') {
+    const results = await verifyFactors(positionals.slice(1), values.json);
+    if (values.json) console.log(JSON.stringify(results, null, 2));
+    if (results.some(result => !result.ok)) process.exitCode = 1;
+    return;
+  }
+
+  let selection: { factor: FactorEntry; scenarios: Scenario[] };
+
+  if (command === 'list') {
+    await listFactors(factorName);
+    return;
+  } else if (command === 'run') {
+    if (!factorName) throw new Error(`Missing factor name.\n\n${USAGE}`);
+
+    const factor = findFactor(factorName);
+    const { scenarios } = await factor.load();
+    selection = {
+      factor,
+      scenarios: scenarioNames.length > 0 ? scenarioNames.map(name => findScenario(scenarios, name)) : scenarios,
+    };
+  } else if (command === undefined && process.stdin.isTTY) {
+    selection = await pickScenarios();
+  } else {
+    console.log(USAGE);
+    if (command !== undefined) process.exitCode = 1;
+    return;
+  }
+
+  const results = await runScenarios(selection.factor, selection.scenarios, values.json);
+
+  if (values.json) {
+    console.log(JSON.stringify(results, null, 2));
+  } else {
+    usageTracker.printSummary();
+  }
+
+  if (results.some(result => !result.ok)) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
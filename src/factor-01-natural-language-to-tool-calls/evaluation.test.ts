@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+
+import { scoreCase } from './evaluation';
+
+const lookupCase = { utterance: 'What is the capital of South Dakota?', expectedTool: 'lookup', expectedArgs: { query: 'south dakota capital' } };
+
+describe('scoreCase', () => {
+  it('ignores optional arguments the dataset does not declare', () => {
+    const score = scoreCase(lookupCase, [{ tool: 'lookup', args: { query: 'South Dakota capital city', topK: 5 }, result: [] }]);
+
+    expect(score).toMatchObject({ exactMatch: true, argsExpected: 1, argsPredicted: 1, argsCorrect: 1 });
+  });
+
+  it('fails an exact match when a declared argument is wrong', () => {
+    const score = scoreCase(lookupCase, [{ tool: 'lookup', args: { query: 'North Dakota capital' }, result: [] }]);
+
+    expect(score).toMatchObject({ exactMatch: false, argsPredicted: 1, argsCorrect: 0 });
+  });
+
+  it('gives no argument credit to the wrong tool', () => {
+    const score = scoreCase(lookupCase, [{ tool: 'convert-units', args: { query: 'south dakota capital' }, result: [] }]);
+
+    expect(score).toMatchObject({ exactMatch: false, argsCorrect: 0 });
+  });
+});
@@ -0,0 +1,155 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+import { z } from 'zod';
+
+import type { ToolCall } from '../harness';
+import { normalizeQuery } from './language';
+
+// 📏 TOOL-CALL EVALUATION
+// Scores the tool an agent picks for each utterance in a dataset, and the arguments it passes.
+// Only an agent's first tool call per utterance is scored; follow-up calls make an exact match fail.
+
+const evalCaseSchema = z.object({
+  utterance: z.string(),
+  // null when the agent should answer without calling a tool
+  expectedTool: z.string().nullable(),
+  // Only these arguments are scored; others the agent passes, such as an optional topK, are ignored
+  expectedArgs: z.record(z.string(), z.unknown()).default({}),
+});
+
+export type EvalCase = z.infer<typeof evalCaseSchema>;
+
+export const DEFAULT_EVAL_DATASET = fileURLToPath(new URL('eval-dataset.json', import.meta.url));
+
+export function loadEvalDataset(filePath: string = DEFAULT_EVAL_DATASET): EvalCase[] {
+  return z.array(evalCaseSchema).parse(JSON.parse(readFileSync(filePath, 'utf8')));
+}
+
+export const NO_TOOL = '(none)';
+
+// Strings match when the argument contains every expected term, whatever the case, word order, filler words
+// or language ("South Dakota capital city" and "capitale du Dakota du Sud" match "south dakota capital").
+// Other values must be equal.
+export function argMatches(expected: unknown, actual: unknown): boolean {
+  if (typeof expected === 'string' && typeof actual === 'string') {
+    const actualTerms = new Set(normalizeQuery(actual).canonicalQuery.split(' '));
+    return normalizeQuery(expected).canonicalQuery.split(' ').every(term => actualTerms.has(term));
+  }
+  return JSON.stringify(expected) === JSON.stringify(actual);
+}
+
+export interface CaseScore {
+  utterance: string;
+  expectedTool: string;
+  chosenTool: string;
+  chosenArgs: Record<string, unknown>;
+  exactMatch: boolean;
+  argsExpected: number;
+  argsPredicted: number;
+  argsCorrect: number;
+}
+
+export function scoreCase(evalCase: EvalCase, calls: ToolCall[]): CaseScore {
+  const expectedTool = evalCase.expectedTool ?? NO_TOOL;
+  const chosenTool = calls[0]?.tool ?? NO_TOOL;
+  const chosenArgs = (calls[0]?.args ?? {}) as Record<string, unknown>;
+
+  const expectedArgs = Object.entries(evalCase.expectedArgs);
+  const predictedArgs = expectedArgs.filter(([key]) => key in chosenArgs);
+  // Arguments only count as correct when they were passed to the right tool
+  const argsCorrect = chosenTool === expectedTool
+    ? predictedArgs.filter(([key, value]) => argMatches(value, chosenArgs[key])).length
+    : 0;
+  const argsPredicted = predictedArgs.length;
+
+  return {
+    utterance: evalCase.utterance,
+    expectedTool,
+    chosenTool,
+    chosenArgs,
+    exactMatch: chosenTool === expectedTool
+      && calls.length === (expectedTool === NO_TOOL ? 0 : 1)
+      && argsCorrect === expectedArgs.length,
+    argsExpected: expectedArgs.length,
+    argsPredicted,
+    argsCorrect,
+  };
+}
+
+export interface EvalReport {
+  model: string;
+  cases: CaseScore[];
+  exactMatch: number;
+  toolAccuracy: number;
+  argPrecision: number;
+  argRecall: number;
+  // confusion[expected tool][chosen tool] = number of utterances
+  confusion: Record<string, Record<string, number>>;
+}
+
+function count(cases: CaseScore[], field: 'argsExpected' | 'argsPredicted' | 'argsCorrect'): number {
+  let total = 0;
+  for (const score of cases) total += score[field];
+  return total;
+}
+
+// Nothing to get wrong counts as perfect, e.g. precision when no arguments were passed
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 1 : numerator / denominator;
+}
+
+export function summarizeEvaluation(model: string, cases: CaseScore[]): EvalReport {
+  const confusion: Record<string, Record<string, number>> = {};
+  for (const { expectedTool, chosenTool } of cases) {
+    const row = (confusion[expectedTool] ??= {});
+    row[chosenTool] = (row[chosenTool] ?? 0) + 1;
+  }
+
+  return {
+    model,
+    cases,
+    exactMatch: ratio(cases.filter(score => score.exactMatch).length, cases.length),
+    toolAccuracy: ratio(cases.filter(score => score.chosenTool === score.expectedTool).length, cases.length),
+    argPrecision: ratio(count(cases, 'argsCorrect'), count(cases, 'argsPredicted')),
+    argRecall: ratio(count(cases, 'argsCorrect'), count(cases, 'argsExpected')),
+    confusion,
+  };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(6);
+
+export function printEvalReport(report: EvalReport) {
+  const { cases } = report;
+
+  console.log(`\n📊 Tool-Call Accuracy: ${report.model} (${cases.length} utterances)`);
+  console.log(`   Exact match:    ${percent(report.exactMatch)}  (${cases.filter(score => score.exactMatch).length}/${cases.length})`);
+  console.log(`   Tool accuracy:  ${percent(report.toolAccuracy)}  (${cases.filter(score => score.chosenTool === score.expectedTool).length}/${cases.length})`);
+  console.log(`   Arg precision:  ${percent(report.argPrecision)}  (${count(cases, 'argsCorrect')}/${count(cases, 'argsPredicted')})`);
+  console.log(`   Arg recall:     ${percent(report.argRecall)}  (${count(cases, 'argsCorrect')}/${count(cases, 'argsExpected')})`);
+
+  // Expected tools first, in dataset order, then any tool only ever chosen by mistake
+  const tools = [...new Set([...cases.map(score => score.expectedTool), ...cases.map(score => score.chosenTool)])];
+  const header = 'expected ↓ chosen →';
+  const labelWidth = Math.max(...tools.map(tool => tool.length), header.length);
+  const cellWidth = Math.max(...tools.map(tool => tool.length)) + 2;
+
+  console.log('\n   Confusion (rows: expected tool, columns: chosen tool)');
+  console.log(`   ${header.padEnd(labelWidth)}${tools.map(tool => tool.padStart(cellWidth)).join('')}`);
+  for (const expected of tools) {
+    const row = report.confusion[expected];
+    if (!row) continue;
+    console.log(`   ${expected.padEnd(labelWidth)}${tools.map(chosen => String(row[chosen] ?? 0).padStart(cellWidth)).join('')}`);
+  }
+}
+
+export function printModelComparison(reports: EvalReport[]) {
+  const width = Math.max(...reports.map(report => report.model.length), 'Model'.length) + 2;
+
+  console.log('\n🏆 Model Comparison');
+  console.log(`   ${'Model'.padEnd(width)}${['Exact', 'Tool', 'Precision', 'Recall'].map(header => header.padStart(11)).join('')}`);
+  for (const report of reports) {
+    const metrics = [report.exactMatch, report.toolAccuracy, report.argPrecision, report.argRecall];
+    console.log(`   ${report.model.padEnd(width)}${metrics.map(metric => percent(metric).padStart(11)).join('')}`);
+  }
+}
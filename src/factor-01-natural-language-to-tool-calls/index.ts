@@ -2,94 +2,407 @@
 
 import { Agent } from '@mastra/core/agent';
 import { createTool } from '@mastra/core/tools';
+import type { LanguageModelV2 } from '@ai-sdk/provider';
 import { z } from 'zod';
-import { model } from '../model';
+import { Expectations, isMainModule, toolCallsOf, type Scenario } from '../harness';
+import { modelFor } from '../model';
+import { traceAgentCall, traceToolCall, traceTools } from '../trace';
+import { usageTracker } from '../usage';
+import {
+  DEFAULT_EVAL_DATASET,
+  loadEvalDataset,
+  NO_TOOL,
+  printEvalReport,
+  printModelComparison,
+  scoreCase,
+  summarizeEvaluation,
+  type EvalReport,
+} from './evaluation';
+import { Bm25KnowledgeBase, DEFAULT_KNOWLEDGE_DIR, loadPassages, type KnowledgeBase } from './knowledge-base';
+import { languageSchema, normalizeQuery, type Language } from './language';
 
-console.log('🎯 Factor 1: Natural Language to Tool Calls');
-console.log('===========================================');
+// Lookup tool backed by a searchable knowledge base: natural phrasing in, ranked passages with source ids out.
+// Any KnowledgeBase can back it; the default ranks the documents in ./knowledge (or KNOWLEDGE_DIR) with BM25.
+// Queries in other languages are normalized to the knowledge base's English terms first (see language.ts).
+const lookupResultSchema = z.object({
+  query: z.string(),
+  language: languageSchema,
+  canonicalQuery: z.string(),
+  passages: z.array(z.object({ source: z.string(), title: z.string(), text: z.string(), score: z.number() })),
+});
+
+function searchKnowledgeBase(knowledgeBase: KnowledgeBase, search: string, topK = 3): z.infer<typeof lookupResultSchema> {
+  const { language, canonicalQuery } = normalizeQuery(search);
+  return { query: search, language, canonicalQuery, passages: knowledgeBase.search(canonicalQuery, topK) };
+}
+
+export function createLookupTool(knowledgeBase: KnowledgeBase) {
+  return createTool({
+    id: 'lookup',
+    inputSchema: z.object({
+      search: z.string().describe("What to look up, in the user's own words and language"),
+      topK: z.number().int().min(1).max(10).optional().describe('How many passages to return (default 3)'),
+    }),
+    outputSchema: lookupResultSchema,
+    description: 'Searches the knowledge base and returns the most relevant passages, each with a source id to cite',
+    execute: async ({ context }) => searchKnowledgeBase(knowledgeBase, context.search, context.topK),
+  });
+}
+
+const knowledgeBase = new Bm25KnowledgeBase(loadPassages(process.env.KNOWLEDGE_DIR || DEFAULT_KNOWLEDGE_DIR));
+const lookupTool = createLookupTool(knowledgeBase);
 
-// Simple lookup tool that demonstrates deterministic execution
-const lookupTool = createTool({
-  id: 'lookup',
+// Deterministic unit conversion, so questions that need a calculation rather than a lookup have a tool to pick
+const UNIT_CONVERSIONS: Record<string, (value: number) => number> = {
+  'km:mi': value => value / 1.609_344,
+  'mi:km': value => value * 1.609_344,
+  'c:f': value => value * 9 / 5 + 32,
+  'f:c': value => (value - 32) * 5 / 9,
+  'kg:lb': value => value / 0.453_592_37,
+  'lb:kg': value => value * 0.453_592_37,
+};
+
+const unitSchema = z.enum(['km', 'mi', 'c', 'f', 'kg', 'lb']);
+
+type Unit = z.infer<typeof unitSchema>;
+
+function convertUnits(value: number, from: Unit, to: Unit) {
+  const convert = UNIT_CONVERSIONS[`${from}:${to}`];
+  if (!convert) return { error: `Cannot convert ${from} to ${to}` };
+
+  return { value, from, to, result: Math.round(convert(value) * 100) / 100 };
+}
+
+const convertUnitsTool = createTool({
+  id: 'convert-units',
   inputSchema: z.object({
-    search: z.string().describe('The search term to look up')
+    value: z.number().describe('The value to convert'),
+    from: unitSchema.describe('Unit to convert from: km, mi, c (°C), f (°F), kg or lb'),
+    to: unitSchema.describe('Unit to convert to: km, mi, c (°C), f (°F), kg or lb'),
   }),
-  description: 'Looks up information for a given search term',
-  execute: async ({ context }) => {
-    console.log(`[🔧 Tool Called] lookupTool with: "${context.search}"`);
-
-    // Deterministic responses for demo
-    const database: Record<string, string> = {
-      'capital of south dakota': 'Pierre is the capital of South Dakota.',
-      'ada lovelace': 'Ada Lovelace was an English mathematician and writer, often considered the first computer programmer.',
-      'weather': 'The weather is sunny and 72°F today.',
-      'default': `I found information about "${context.search}" but it's not in my current database.`
-    };
-
-    const searchKey = context.search.toLowerCase();
-    const result = database[searchKey] || database.default;
-
-    console.log(`[✅ Tool Result] ${result}`);
-    return { result };
-  },
+  description: 'Converts a value between units of distance (km, mi), temperature (c, f) or weight (kg, lb)',
+  execute: async ({ context }) => convertUnits(context.value, context.from, context.to),
 });
 
-// Simple agent focused on natural language → tool calls
-const agent = new Agent({
-  name: 'Factor1Agent',
-  instructions: `You are a helpful assistant that demonstrates Factor 1: Natural Language to Tool Calls.
+const factor1Tools = { lookupTool, convertUnitsTool };
+
+// Simple agent focused on natural language → tool calls.
+// Created from a model so the evaluation can run the same agent on several models.
+function createFactor1Agent(model: LanguageModelV2) {
+  return new Agent({
+    name: 'Factor1Agent',
+    instructions: `You are a helpful assistant that demonstrates Factor 1: Natural Language to Tool Calls.
 
 When a user asks a question:
-1. Use the lookup tool to search for information
-2. Provide a clear response based on the tool result
+1. Use the lookup tool to search for information, or the convert-units tool to convert between units
+2. Pass the user's own words to the lookup tool, in their language: it normalizes them itself
+3. Provide a clear response based only on the passages or results the tools return
+4. Cite the source id of every passage you use in square brackets, e.g. [south-dakota#capital]
+5. If no passage answers the question, say the knowledge base has no information about it
+6. Answer in the language of the question
 
-Always use the lookup tool for any question - this demonstrates the LLM converting natural language to structured tool calls.`,
-  model,
-  tools: { lookupTool },
-});
+Always use a tool for any question - this demonstrates the LLM converting natural language to structured tool calls.
+Greetings and thanks need no tool.`,
+    model,
+    tools: traceTools(factor1Tools),
+  });
+}
+
+const agent = createFactor1Agent(modelFor('Factor1Agent'));
+
+// Source ids cited in an answer, e.g. "[south-dakota#capital]"
+function citationsIn(text: string): string[] {
+  return [...text.matchAll(/\[([\w-]+(?:#[\w-]+)?)\]/g)].map(match => match[1] ?? '');
+}
+
+// What a multilingual question's lookup should have normalized its search to
+interface ExpectedLookup {
+  language: Language;
+  canonicalQuery: string;
+}
 
-async function demonstrateFactor1(userQuestion: string) {
+async function demonstrateFactor1(userQuestion: string, expectedSource: string | null, expectedLookup?: ExpectedLookup) {
   console.log(`\n📝 User Question: "${userQuestion}"`);
   console.log('🧠 LLM Processing: Converting natural language to tool call...');
 
-  const result = await agent.generateVNext(userQuestion);
+  const result = await traceAgentCall(agent.name, userQuestion, () => agent.generateVNext(userQuestion));
 
   console.log(`\n💬 Agent Response: ${result.text}`);
 
   // Show tool calls that were made
-  if (result.toolResults && result.toolResults.length > 0) {
+  const toolCalls = toolCallsOf(result, factor1Tools);
+  if (toolCalls.length > 0) {
     console.log('\n🔍 Tool Calls Made:');
-    for (const [index, toolResult] of result.toolResults.entries()) {
-      console.log(`   ${index + 1}. ${toolResult.toolName}(${JSON.stringify(toolResult.args)})`);
-      console.log(`      → ${JSON.stringify(toolResult.result)}`);
+    for (const [index, toolCall] of toolCalls.entries()) {
+      console.log(`   ${index + 1}. ${toolCall.tool}(${JSON.stringify(toolCall.args)})`);
+
+      const lookup = lookupResultSchema.safeParse(toolCall.result).data;
+      if (!lookup) continue;
+
+      console.log(`      🌍 Language: ${lookup.language}, canonical query: "${lookup.canonicalQuery}"`);
+      if (lookup.passages.length === 0) console.log('      → no matching passages');
+      for (const passage of lookup.passages) {
+        console.log(`      → [${passage.source}] ${passage.title} (score ${passage.score})`);
+      }
     }
   }
 
+  const expectations = new Expectations();
+  console.log('');
+  expectations.equal('Tool Calls', toolCalls.map(toolCall => toolCall.tool), ['lookup']);
+
+  // The answer may only cite passages the tool returned, and must cite one when any were found
+  const passages = toolCalls.flatMap(toolCall => lookupResultSchema.safeParse(toolCall.result).data?.passages ?? []);
+  const retrieved = new Set(passages.map(passage => passage.source));
+  const citations = citationsIn(result.text);
+  expectations.equal('Top Source', passages[0]?.source ?? null, expectedSource);
+  expectations.check(
+    'Cites Retrieved Sources',
+    citations.every(source => retrieved.has(source)) && (retrieved.size === 0 || citations.length > 0),
+    `cited ${JSON.stringify(citations)}, retrieved ${JSON.stringify([...retrieved])}`,
+  );
+
+  if (expectedLookup) {
+    const lookup = lookupResultSchema.safeParse(toolCalls[0]?.result).data;
+    expectations.equal('Detected Language', lookup?.language, expectedLookup.language);
+    expectations.equal('Canonical Query', lookup?.canonicalQuery, expectedLookup.canonicalQuery);
+  }
+
   console.log('\n✨ Factor 1 Demonstration:');
   console.log('   1. Natural Language Input ✅');
   console.log('   2. LLM → Structured Tool Call ✅');
   console.log('   3. Deterministic Tool Execution ✅');
   console.log('   4. Structured Output ✅');
+
+  expectations.verify();
 }
 
+// Demo scenarios that show different natural language inputs, with the passage each should find first
+const questions: Record<string, { question: string; expectedSource: string | null }> = {
+  'capital-of-south-dakota': { question: 'What is the capital of South Dakota?', expectedSource: 'south-dakota#capital' },
+  'south-dakota-capital': { question: 'South Dakota capital?', expectedSource: 'south-dakota#capital' },
+  'ada-lovelace': { question: 'Tell me about Ada Lovelace', expectedSource: 'ada-lovelace#biography' },
+  'weather': { question: 'What is the weather like?', expectedSource: 'weather#today' },
+  'unknown-topic': { question: 'Who won the 1998 World Cup?', expectedSource: null },
+};
+
+// The same lookups asked in other languages, with the canonical (English) query each should normalize to
+const multilingualQuestions: Record<string, { question: string; expectedSource: string; expectedLookup: ExpectedLookup }> = {
+  'fr-capital-of-south-dakota': {
+    question: 'Quelle est la capitale du Dakota du Sud ?',
+    expectedSource: 'south-dakota#capital',
+    expectedLookup: { language: 'fr', canonicalQuery: 'capital dakota south' },
+  },
+  'es-capital-of-north-dakota': {
+    question: '¿Cuál es la capital de Dakota del Norte?',
+    expectedSource: 'north-dakota#capital',
+    expectedLookup: { language: 'es', canonicalQuery: 'capital dakota north' },
+  },
+  'es-ada-lovelace': {
+    question: '¿Quién fue Ada Lovelace?',
+    expectedSource: 'ada-lovelace#biography',
+    expectedLookup: { language: 'es', canonicalQuery: 'ada lovelace' },
+  },
+  'de-weather': {
+    question: 'Wie ist das Wetter heute?',
+    expectedSource: 'weather#today',
+    expectedLookup: { language: 'de', canonicalQuery: 'today weather' },
+  },
+};
+
+// 🧭 STRUCTURED NEXT STEP MODE
+// The model only decides the next step, as one member of a typed union; our code executes it and returns the
+// typed result. There is no tool-calling loop and no second model call to turn the result into prose.
+
+const nextStepSchema = z.discriminatedUnion('intent', [
+  z.object({
+    intent: z.literal('lookup'),
+    search: z.string().describe('What to look up in the knowledge base'),
+    topK: z.number().int().min(1).max(10).optional().describe('How many passages to return (default 3)'),
+  }),
+  z.object({
+    intent: z.literal('convert_units'),
+    value: z.number(),
+    from: unitSchema,
+    to: unitSchema,
+  }),
+  z.object({
+    intent: z.literal('reply'),
+    message: z.string().describe('Direct answer for greetings and small talk that need no tool'),
+  }),
+]);
+
+// JSON modes expect an object at the top level, so the union is wrapped
+const nextStepOutputSchema = z.object({ nextStep: nextStepSchema });
+
+export type NextStep = z.infer<typeof nextStepSchema>;
+
+const nextStepAgent = new Agent({
+  name: 'Factor1NextStepAgent',
+  instructions: `You choose the next step for a user's request. Do not answer the question yourself.
+
+Respond with JSON of the form {"nextStep": ...} where nextStep is one of:
+- {"intent": "lookup", "search": "..."} to search the knowledge base for information
+- {"intent": "convert_units", "value": 10, "from": "km", "to": "mi"} to convert km/mi, c/f (°C/°F) or kg/lb
+- {"intent": "reply", "message": "..."} only for greetings and small talk`,
+  model: modelFor('Factor1NextStepAgent'),
+});
+
+// Deterministic execution of the chosen step; the switch must handle every intent of the union
+function executeNextStep(step: NextStep) {
+  switch (step.intent) {
+    case 'lookup': {
+      return { intent: step.intent, ...searchKnowledgeBase(knowledgeBase, step.search, step.topK) };
+    }
+    case 'convert_units': {
+      return { intent: step.intent, ...convertUnits(step.value, step.from, step.to) };
+    }
+    case 'reply': {
+      return { intent: step.intent, message: step.message };
+    }
+  }
+}
+
+export type NextStepResult = ReturnType<typeof executeNextStep>;
+
+export async function runNextStep(userRequest: string): Promise<{ step: NextStep; result: NextStepResult }> {
+  // Mastra validates the model's JSON against the schema and throws when it does not match
+  const decision = await traceAgentCall(nextStepAgent.name, userRequest, () =>
+    nextStepAgent.generateVNext(userRequest, { output: nextStepOutputSchema }));
+  const step = decision.object.nextStep;
+
+  // A reply runs nothing, so only tool intents are traced as tool calls
+  const result = step.intent === 'reply'
+    ? executeNextStep(step)
+    : await traceToolCall(step.intent, step, async () => executeNextStep(step));
+  return { step, result };
+}
+
+async function demonstrateNextStep(userRequest: string, expectedIntent: NextStep['intent'], check: (result: NextStepResult) => boolean) {
+  console.log(`\n📝 User Request: "${userRequest}"`);
+  console.log('🧠 LLM Processing: Choosing the next step (no prose reply)...');
+
+  const callsBefore = usageTracker.getRecords().length;
+  const { step, result } = await runNextStep(userRequest);
+  const modelCalls = usageTracker.getRecords().length - callsBefore;
+
+  console.log(`\n🧭 Next Step: ${JSON.stringify(step)}`);
+  console.log(`📦 Typed Result: ${JSON.stringify(result)}`);
+
+  const expectations = new Expectations();
+  console.log('');
+  expectations.equal('Next Step Intent', step.intent, expectedIntent);
+  expectations.check('Result', check(result), JSON.stringify(result));
+  expectations.equal('Model Calls', modelCalls, 1);
+  expectations.verify();
+
+  return { step, result };
+}
+
+const nextStepRequests: Record<string, { request: string; expectedIntent: NextStep['intent']; check: (result: NextStepResult) => boolean }> = {
+  'next-step-lookup': {
+    request: 'What is the capital of South Dakota?',
+    expectedIntent: 'lookup',
+    check: result => result.intent === 'lookup' && result.passages[0]?.source === 'south-dakota#capital',
+  },
+  'next-step-convert': {
+    request: 'Convert 10 km to miles',
+    expectedIntent: 'convert_units',
+    check: result => result.intent === 'convert_units' && 'result' in result && result.result === 6.21,
+  },
+  'next-step-reply': {
+    request: 'Good morning!',
+    expectedIntent: 'reply',
+    check: result => result.intent === 'reply' && result.message.length > 0,
+  },
+};
+
+// 📏 EVALUATION MODE
+// Runs every utterance in the dataset (EVAL_DATASET, default eval-dataset.json) through Factor1Agent and scores
+// its tool calls against the expected tool and arguments. EVAL_MODELS=mock,groq:llama-3.3-70b-versatile
+// compares several models in one run; without it the agent's own model (MODEL or AGENT_MODELS) is evaluated.
+const MIN_EXACT_MATCH = 0.8;
+
+async function evaluateToolCalls(): Promise<EvalReport[]> {
+  const dataset = loadEvalDataset(process.env.EVAL_DATASET || DEFAULT_EVAL_DATASET);
+  const specs = (process.env.EVAL_MODELS ?? '').split(',').map(spec => spec.trim()).filter(Boolean);
+  const models = specs.length > 0 ? specs.map(spec => modelFor('Factor1Agent', spec)) : [modelFor('Factor1Agent')];
+
+  const expectations = new Expectations();
+  const reports: EvalReport[] = [];
+
+  for (const model of models) {
+    const label = `${model.provider}:${model.modelId}`;
+    const evaluatedAgent = createFactor1Agent(model);
+    console.log(`\n📏 Evaluating ${label} on ${dataset.length} utterances`);
+
+    const scores = [];
+    for (const evalCase of dataset) {
+      const result = await traceAgentCall(evaluatedAgent.name, evalCase.utterance, () => evaluatedAgent.generateVNext(evalCase.utterance));
+      const score = scoreCase(evalCase, toolCallsOf(result, factor1Tools));
+      const call = score.chosenTool === NO_TOOL ? score.chosenTool : `${score.chosenTool}(${JSON.stringify(score.chosenArgs)})`;
+      console.log(`   ${score.exactMatch ? '✅' : '❌'} "${evalCase.utterance}" → ${call}`);
+      scores.push(score);
+    }
+
+    const report = summarizeEvaluation(label, scores);
+    printEvalReport(report);
+    reports.push(report);
+  }
+
+  if (reports.length > 1) printModelComparison(reports);
+
+  console.log('');
+  for (const report of reports) {
+    expectations.check(
+      `${report.model} Exact Match ≥ ${MIN_EXACT_MATCH * 100}%`,
+      report.exactMatch >= MIN_EXACT_MATCH,
+      `got ${(report.exactMatch * 100).toFixed(1)}%`,
+    );
+  }
+  expectations.verify();
+
+  return reports;
+}
+
+const demoScenarios: Scenario[] = [
+  ...Object.entries(questions).map(([name, { question, expectedSource }]) => ({
+    name,
+    description: question,
+    run: () => demonstrateFactor1(question, expectedSource),
+  })),
+  ...Object.entries(multilingualQuestions).map(([name, { question, expectedSource, expectedLookup }]) => ({
+    name,
+    description: question,
+    run: () => demonstrateFactor1(question, expectedSource, expectedLookup),
+  })),
+  ...Object.entries(nextStepRequests).map(([name, { request, expectedIntent, check }]) => ({
+    name,
+    description: `${request} (structured next step, no prose reply)`,
+    run: () => demonstrateNextStep(request, expectedIntent, check),
+  })),
+];
+
+// The evaluation is opt-in (pnpm cli run factor01 evaluate); pnpm factor01 runs the demos only
+export const scenarios: Scenario[] = [
+  ...demoScenarios,
+  { name: 'evaluate', description: 'Tool-call accuracy on the evaluation dataset', run: evaluateToolCalls },
+];
+
 async function main() {
-  // Three demo scenarios that show different natural language inputs
-  const scenarios = [
-    'What is the capital of South Dakota?',
-    'Tell me about Ada Lovelace',
-    'What is the weather like?'
-  ];
+  console.log('🎯 Factor 1: Natural Language to Tool Calls');
+  console.log('===========================================');
 
   console.log('\n🎬 Running Factor 1 Demo Scenarios:\n');
 
-  for (const [index, scenario] of scenarios.entries()) {
+  for (const [index, scenario] of demoScenarios.entries()) {
     console.log(`\n${'='.repeat(50)}`);
-    console.log(`📍 Scenario ${index + 1} of ${scenarios.length}`);
+    console.log(`📍 Scenario ${index + 1} of ${demoScenarios.length}`);
     console.log(`${'='.repeat(50)}`);
 
-    await demonstrateFactor1(scenario);
+    await scenario.run();
 
-    if (index < scenarios.length - 1) {
+    if (index < demoScenarios.length - 1) {
       // Add a small delay between scenarios for readability
       await new Promise(resolve => setTimeout(resolve, 1000));
     }
@@ -102,6 +415,11 @@ async function main() {
   console.log('   Factor 1 shows how LLMs excel at converting natural language');
   console.log('   into structured, executable tool calls. The LLM handles the');
   console.log('   "understanding" while tools handle "doing" deterministically.');
+  console.log('\n📏 Score tool-call accuracy on a dataset: pnpm cli run factor01 evaluate');
+
+  usageTracker.printSummary();
 }
 
-main().catch(console.error);
+if (isMainModule(import.meta.url)) {
+  main().catch(console.error);
+}
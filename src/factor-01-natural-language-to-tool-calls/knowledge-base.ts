@@ -0,0 +1,136 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { z } from 'zod';
+
+// 📚 KNOWLEDGE BASE
+// A local document store the lookup tool searches. Documents are markdown or JSON files in one directory;
+// each is split into passages with a stable source id the agent can cite, e.g. "south-dakota#capital".
+
+export interface Passage {
+  source: string;
+  title: string;
+  text: string;
+}
+
+export interface SearchHit extends Passage {
+  score: number;
+}
+
+// Anything that ranks passages for a query can back the lookup tool
+export interface KnowledgeBase {
+  search(query: string, topK: number): SearchHit[];
+}
+
+export const DEFAULT_KNOWLEDGE_DIR = fileURLToPath(new URL('knowledge', import.meta.url));
+
+function slugify(text: string): string {
+  return text.toLowerCase().replaceAll(/[^\p{L}\p{N}]+/gu, '-').replaceAll(/^-|-$/g, '');
+}
+
+// Markdown: "# Title" names the document and every "## Heading" starts a passage ("<file>#<heading>").
+// Text before the first heading becomes a passage named after the file alone.
+function markdownPassages(documentId: string, markdown: string): Passage[] {
+  const title = /^# (.+)$/m.exec(markdown)?.[1]?.trim() ?? documentId;
+  const sections = markdown.replace(/^# .+$/m, '').split(/^## /m);
+
+  return sections.flatMap((section, index) => {
+    const [heading = '', ...body] = index === 0 ? ['', section] : section.split('\n');
+    const text = body.join('\n').trim();
+    if (!text) return [];
+
+    return [{
+      source: heading ? `${documentId}#${slugify(heading)}` : documentId,
+      title: heading ? `${title}: ${heading.trim()}` : title,
+      text,
+    }];
+  });
+}
+
+// JSON: an array of { id, title, text } passages ("<file>#<id>")
+const jsonPassagesSchema = z.array(z.object({ id: z.string(), title: z.string(), text: z.string() }));
+
+function jsonPassages(documentId: string, json: string, file: string): Passage[] {
+  const parsed = jsonPassagesSchema.safeParse(JSON.parse(json));
+  if (!parsed.success) {
+    throw new Error(`Invalid knowledge base file ${file}: expected an array of { id, title, text }`);
+  }
+  return parsed.data.map(entry => ({ source: `${documentId}#${entry.id}`, title: entry.title, text: entry.text }));
+}
+
+export function loadPassages(directory: string = DEFAULT_KNOWLEDGE_DIR): Passage[] {
+  return readdirSync(directory).flatMap(file => {
+    const extension = path.extname(file);
+    const documentId = path.basename(file, extension);
+    const content = readFileSync(path.join(directory, file), 'utf8');
+
+    if (extension === '.md') return markdownPassages(documentId, content);
+    if (extension === '.json') return jsonPassages(documentId, content, file);
+    return [];
+  });
+}
+
+// 🔎 BM25 RANKING
+// Scores passages by how often they contain the query's terms, weighted by how rare each term is
+// and normalised for passage length. Word order and phrasing do not matter, unlike an exact key match.
+
+export const STOP_WORDS = new Set([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'does', 'for', 'from', 'how', 'i', 'in',
+  'is', 'it', 'its', 'like', 'me', 'of', 'on', 'or', 'tell', 'that', 'the', 'this', 'to', 'was', 'what', 'when',
+  'where', 'which', 'who', 'why', 'with',
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token && !STOP_WORDS.has(token))
+    // Crude plural folding, so "capitals" matches "capital"
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
+
+export class Bm25KnowledgeBase implements KnowledgeBase {
+  private readonly documents: Array<{ passage: Passage; termCounts: Map<string, number>; length: number }>;
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(passages: Passage[], private readonly k1 = 1.2, private readonly b = 0.75) {
+    this.documents = passages.map(passage => {
+      // Titles carry the subject ("South Dakota: Capital"), so they are indexed with the text
+      const tokens = tokenize(`${passage.title} ${passage.text}`);
+      const termCounts = new Map<string, number>();
+      for (const token of tokens) termCounts.set(token, (termCounts.get(token) ?? 0) + 1);
+      return { passage, termCounts, length: tokens.length };
+    });
+
+    for (const { termCounts } of this.documents) {
+      for (const term of termCounts.keys()) this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+    }
+    this.averageLength = this.documents.reduce((sum, document) => sum + document.length, 0) / Math.max(this.documents.length, 1);
+  }
+
+  search(query: string, topK: number): SearchHit[] {
+    const terms = [...new Set(tokenize(query))];
+    const count = this.documents.length;
+
+    const hits = this.documents
+      .map(({ passage, termCounts, length }) => {
+        let score = 0;
+        for (const term of terms) {
+          const frequency = termCounts.get(term) ?? 0;
+          if (frequency === 0) continue;
+
+          const documentFrequency = this.documentFrequency.get(term) ?? 0;
+          const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+          score += idf * (frequency * (this.k1 + 1)) / (frequency + this.k1 * (1 - this.b + this.b * length / this.averageLength));
+        }
+        return { ...passage, score: Math.round(score * 1000) / 1000 };
+      })
+      .filter(hit => hit.score > 0);
+
+    // Ties go to the source id, so results do not depend on file order
+    hits.sort((left, right) => right.score - left.score || left.source.localeCompare(right.source));
+    return hits.slice(0, topK);
+  }
+}
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+
+import { STOP_WORDS, tokenize } from './knowledge-base';
+
+// 🌍 MULTILINGUAL QUERIES
+// The knowledge base is written in English. Queries in French, Spanish or German are detected by their
+// function words and mapped term by term onto the English vocabulary, so "capitale du Dakota du Sud"
+// and "South Dakota capital" normalize to the same canonical query: "capital dakota south".
+
+export const languageSchema = z.enum(['en', 'fr', 'es', 'de']);
+
+export type Language = z.infer<typeof languageSchema>;
+
+interface LanguageProfile {
+  // Function words: used to detect the language, then dropped from the query
+  stopWords: Set<string>;
+  // Content words translated to the English terms the knowledge base uses (keys without accents).
+  // Words spelled the same in English ("capital" in Spanish) are left out, as they say nothing about the language.
+  lexicon: Record<string, string>;
+}
+
+const PROFILES: Record<Language, LanguageProfile> = {
+  en: { stopWords: STOP_WORDS, lexicon: {} },
+  fr: {
+    stopWords: new Set(['au', 'aux', 'ce', 'de', 'des', 'du', 'est', 'et', 'etait', 'fait', 'hui', 'il', 'la', 'le', 'les', 'moi', 'parle', 'quel', 'quelle', 'qui', 'sur', 'un', 'une']),
+    lexicon: { aujourd: 'today', capitale: 'capital', demain: 'tomorrow', meteo: 'weather', nord: 'north', sud: 'south', temps: 'weather', ville: 'city' },
+  },
+  es: {
+    stopWords: new Set(['como', 'cual', 'de', 'del', 'el', 'es', 'fue', 'hace', 'la', 'las', 'los', 'que', 'quien', 'sobre', 'un', 'una', 'y']),
+    lexicon: { ciudad: 'city', clima: 'weather', hoy: 'today', manana: 'tomorrow', norte: 'north', sur: 'south', tiempo: 'weather' },
+  },
+  de: {
+    stopWords: new Set(['das', 'der', 'des', 'die', 'ein', 'eine', 'ist', 'uber', 'und', 'von', 'war', 'was', 'wer', 'wie']),
+    lexicon: { hauptstadt: 'capital', heute: 'today', morgen: 'tomorrow', nord: 'north', stadt: 'city', sud: 'south', wetter: 'weather' },
+  },
+};
+
+// "météo" → "meteo", "Süd" → "sud": lexicon keys are written without accents
+function words(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replaceAll(/\p{Diacritic}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+// The language whose function and content words occur most; English on a tie, e.g. a bare name
+export function detectLanguage(text: string): Language {
+  const tokens = words(text);
+  let best: Language = 'en';
+  let bestScore = 0;
+
+  for (const [language, { stopWords, lexicon }] of Object.entries(PROFILES) as Array<[Language, LanguageProfile]>) {
+    const score = tokens.filter(token => stopWords.has(token) || token in lexicon).length;
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+export interface NormalizedQuery {
+  language: Language;
+  // English knowledge-base terms, deduplicated and sorted, so word order does not matter
+  canonicalQuery: string;
+}
+
+export function normalizeQuery(text: string): NormalizedQuery {
+  const language = detectLanguage(text);
+  const { stopWords, lexicon } = PROFILES[language];
+
+  const translated = words(text)
+    .filter(token => !stopWords.has(token))
+    .map(token => lexicon[token] ?? token);
+
+  const terms = [...new Set(tokenize(translated.join(' ')))];
+  terms.sort();
+  return { language, canonicalQuery: terms.join(' ') };
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+
+import { summarize, welchTTest } from './experiment';
+
+describe('welchTTest', () => {
+  it('finds a clear difference significant', () => {
+    const pValue = welchTTest(summarize([10, 11, 9, 10, 12]), summarize([20, 21, 19, 22, 20]));
+
+    expect(pValue).toBeLessThan(0.001);
+  });
+
+  it('finds overlapping samples not significant', () => {
+    expect(welchTTest(summarize([10, 14, 8, 12]), summarize([11, 9, 13, 12]))).toBeGreaterThan(0.5);
+  });
+
+  it('has no p-value when neither variant varies', () => {
+    expect(summarize([100 / 3, 100 / 3, 100 / 3]).variance).toBe(0);
+    expect(welchTTest(summarize([0, 0, 0]), summarize([100 / 3, 100 / 3, 100 / 3]))).toBeUndefined();
+  });
+
+  it('has no p-value with fewer than two samples', () => {
+    expect(welchTTest(summarize([1]), summarize([5, 6, 7]))).toBeUndefined();
+  });
+});
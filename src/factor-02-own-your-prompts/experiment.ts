@@ -0,0 +1,271 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { z } from 'zod';
+
+// 🧪 PROMPT EXPERIMENTS
+// Runs every prompt variant on every question of a dataset, several times each, and compares the variants
+// metric by metric. One run per version on one question cannot tell a better prompt from a lucky answer;
+// repeated samples give a mean and a variance, and Welch's t-test says whether a difference is likely real.
+
+export const DEFAULT_EXPERIMENT_DATASET = fileURLToPath(new URL('experiment-questions.json', import.meta.url));
+
+export function loadExperimentQuestions(filePath: string = DEFAULT_EXPERIMENT_DATASET): string[] {
+  return z.array(z.string().min(1)).min(1).parse(JSON.parse(readFileSync(filePath, 'utf8')));
+}
+
+export interface ExperimentConfig {
+  name: string;
+  model: string;
+  // Prompt refs ("deployment@v1"); the first is the baseline the others are compared against
+  variants: string[];
+  questions: string[];
+  // Runs per variant and question
+  samples: number;
+  // Significance level for the comparisons
+  alpha: number;
+}
+
+// One run of a variant on a question, e.g. { safetyScore: 83.3, completionTokens: 120 }
+export type Measure = (variant: string, question: string) => Promise<Record<string, number>>;
+
+export interface MetricSummary {
+  mean: number;
+  // Sample variance (n - 1 denominator)
+  variance: number;
+  n: number;
+}
+
+export interface Comparison {
+  metric: string;
+  baseline: string;
+  candidate: string;
+  // candidate mean - baseline mean
+  difference: number;
+  // undefined when the test is degenerate (see welchTTest)
+  pValue: number | undefined;
+  significant: boolean;
+}
+
+export interface ExperimentReport extends ExperimentConfig {
+  metrics: string[];
+  // summaries[variant][metric]
+  summaries: Record<string, Record<string, MetricSummary>>;
+  comparisons: Comparison[];
+}
+
+// 📐 STATISTICS
+
+function sum(values: number[]): number {
+  let total = 0;
+  for (const value of values) total += value;
+  return total;
+}
+
+export function summarize(values: number[]): MetricSummary {
+  const n = values.length;
+  const mean = n === 0 ? 0 : sum(values) / n;
+  // Identical values have no variance; rounding in the mean (e.g. of 33.33...) would otherwise leave a trace of one
+  const constant = values.every(value => value === values[0]);
+  const variance = n < 2 || constant ? 0 : sum(values.map(value => (value - mean) ** 2)) / (n - 1);
+  return { mean, variance, n };
+}
+
+// Lanczos approximation of ln Γ(x)
+function logGamma(x: number): number {
+  const coefficients = [
+    76.180_091_729_471_5, -86.505_320_329_416_8, 24.014_098_240_830_9,
+    -1.231_739_572_450_16, 0.001_208_650_973_866_18, -5.395_239_384_953e-6,
+  ];
+  let series = 1.000_000_000_190_015;
+  for (const [index, coefficient] of coefficients.entries()) series += coefficient / (x + index + 1);
+  const t = x + 5.5;
+  return (x + 0.5) * Math.log(t) - t + Math.log(2.506_628_274_631 * series / x);
+}
+
+// Continued fraction for the incomplete beta function (Lentz's method)
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let result = d;
+
+  for (let m = 1; m <= 200; m++) {
+    for (const numerator of [
+      m * (b - m) * x / ((a + 2 * m - 1) * (a + 2 * m)),
+      -(a + m) * (a + b + m) * x / ((a + 2 * m) * (a + 2 * m + 1)),
+    ]) {
+      d = 1 + numerator * d;
+      d = 1 / (Math.abs(d) < tiny ? tiny : d);
+      c = 1 + numerator / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      result *= d * c;
+    }
+    if (Math.abs(d * c - 1) < 1e-12) break;
+  }
+  return result;
+}
+
+// Regularized incomplete beta function I_x(a, b)
+function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(x, a, b) / a
+    : 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+}
+
+// Two-sided p-value of Welch's t-test, which does not assume the variants have equal variances.
+// The test is degenerate, and there is no p-value, when a variant has fewer than two samples or neither
+// variant varies (the mock model and replayed answers are the same every time): there is no noise to
+// measure a difference against, so no difference can be called significant.
+export function welchTTest(baseline: MetricSummary, candidate: MetricSummary): number | undefined {
+  if (baseline.n < 2 || candidate.n < 2) return undefined;
+
+  const baselineError = baseline.variance / baseline.n;
+  const candidateError = candidate.variance / candidate.n;
+  const standardError = baselineError + candidateError;
+  if (standardError === 0) return undefined;
+
+  const t = (candidate.mean - baseline.mean) / Math.sqrt(standardError);
+  const degreesOfFreedom = standardError ** 2
+    / (baselineError ** 2 / (baseline.n - 1) + candidateError ** 2 / (candidate.n - 1));
+  return incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+}
+
+// 🏃 RUNNER
+
+export async function runExperiment(config: ExperimentConfig, measure: Measure): Promise<ExperimentReport> {
+  // samples[variant][metric] = every measured value
+  const samples: Record<string, Record<string, number[]>> = {};
+  const metrics: string[] = [];
+
+  for (const variant of config.variants) {
+    const values: Record<string, number[]> = (samples[variant] = {});
+
+    for (const question of config.questions) {
+      for (let sample = 0; sample < config.samples; sample++) {
+        for (const [metric, value] of Object.entries(await measure(variant, question))) {
+          if (!metrics.includes(metric)) metrics.push(metric);
+          (values[metric] ??= []).push(value);
+        }
+      }
+    }
+  }
+
+  const summaries = Object.fromEntries(config.variants.map(variant => [
+    variant,
+    Object.fromEntries(metrics.map(metric => [metric, summarize(samples[variant]?.[metric] ?? [])])),
+  ]));
+
+  const [baseline = '', ...candidates] = config.variants;
+  const comparisons = candidates.flatMap(candidate => metrics.map(metric => {
+    const baselineSummary = summaries[baseline]![metric]!;
+    const candidateSummary = summaries[candidate]![metric]!;
+    const pValue = welchTTest(baselineSummary, candidateSummary);
+    return {
+      metric,
+      baseline,
+      candidate,
+      difference: candidateSummary.mean - baselineSummary.mean,
+      pValue,
+      significant: pValue !== undefined && pValue < config.alpha,
+    };
+  }));
+
+  return { ...config, metrics, summaries, comparisons };
+}
+
+// 📄 REPORTS
+
+// Two decimals, without the floating-point noise of averaging repeated scores like 33.33
+function format(value: number): string {
+  const rounded = Math.round(value * 100) / 100;
+  return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(2);
+}
+
+const formatPValue = (pValue: number | undefined) => {
+  if (pValue === undefined) return 'n/a';
+  return pValue < 0.001 ? '<0.001' : pValue.toFixed(3);
+};
+
+type Verdict = 'significant' | 'not significant' | 'degenerate';
+const verdict = ({ pValue, significant }: Comparison): Verdict => {
+  if (pValue === undefined) return 'degenerate';
+  return significant ? 'significant' : 'not significant';
+};
+const VERDICT_ICONS: Record<Verdict, string> = { 'significant': '✅', 'not significant': '➖', 'degenerate': '⚠️ ' };
+const signed = (value: number) => `${value > 0 ? '+' : ''}${format(value)}`;
+
+export function printExperimentReport(report: ExperimentReport) {
+  const runs = report.questions.length * report.samples;
+  const variantWidth = Math.max(...report.variants.map(variant => variant.length), 'Variant'.length) + 2;
+  const metricWidth = Math.max(...report.metrics.map(metric => metric.length)) + 2;
+
+  console.log(`\n📊 Experiment: ${report.name} on ${report.model}`);
+  console.log(`   ${report.questions.length} questions × ${report.samples} samples = ${runs} runs per variant`);
+
+  for (const metric of report.metrics) {
+    console.log(`\n   ${metric}`);
+    console.log(`   ${'Variant'.padEnd(variantWidth)}${'Mean'.padStart(10)}${'Variance'.padStart(12)}`);
+    for (const variant of report.variants) {
+      const { mean, variance } = report.summaries[variant]![metric]!;
+      console.log(`   ${variant.padEnd(variantWidth)}${format(mean).padStart(10)}${format(variance).padStart(12)}`);
+    }
+  }
+
+  console.log(`\n   Compared with ${report.variants[0]} (Welch's t-test, α = ${report.alpha})`);
+  for (const comparison of report.comparisons) {
+    const flag = `${VERDICT_ICONS[verdict(comparison)]} ${verdict(comparison)}`;
+    console.log(`   ${comparison.candidate.padEnd(variantWidth)}${comparison.metric.padEnd(metricWidth)}${signed(comparison.difference).padStart(10)}  p=${formatPValue(comparison.pValue).padEnd(7)} ${flag}`);
+  }
+  if (report.comparisons.some(comparison => comparison.pValue === undefined)) {
+    console.log('   ⚠️  degenerate: no variance to test against (a constant metric, as with the mock model or replayed');
+    console.log('      answers, or under two samples), so the difference cannot be called significant');
+  }
+}
+
+// Markdown to commit next to the prompt change it justifies
+export function experimentMarkdown(report: ExperimentReport): string {
+  const lines = [
+    `# Prompt experiment: ${report.name}`,
+    '',
+    `- Model: \`${report.model}\``,
+    `- Variants: ${report.variants.map(variant => `\`${variant}\``).join(', ')} (baseline: \`${report.variants[0]}\`)`,
+    `- Questions: ${report.questions.length}, samples per question: ${report.samples}`,
+    `- Significance: Welch's t-test, α = ${report.alpha}`,
+    '',
+    '## Metrics',
+    '',
+    `| Variant | ${report.metrics.map(metric => `${metric} (mean ± sd)`).join(' | ')} |`,
+    `| --- | ${report.metrics.map(() => '---:').join(' | ')} |`,
+    ...report.variants.map(variant => {
+      const cells = report.metrics.map(metric => {
+        const { mean, variance } = report.summaries[variant]![metric]!;
+        return `${format(mean)} ± ${format(Math.sqrt(variance))}`;
+      });
+      return `| \`${variant}\` | ${cells.join(' | ')} |`;
+    }),
+    '',
+    '## Comparisons',
+    '',
+    '| Variant | Metric | Difference | p-value | Result |',
+    '| --- | --- | ---: | ---: | :---: |',
+    ...report.comparisons.map(comparison =>
+      `| \`${comparison.candidate}\` | ${comparison.metric} | ${signed(comparison.difference)} | ${formatPValue(comparison.pValue)} | ${verdict(comparison)} |`),
+    '',
+    '## Questions',
+    '',
+    ...report.questions.map(question => `- ${question}`),
+    '',
+  ];
+  return lines.join('\n');
+}
+
+export function writeExperimentReport(report: ExperimentReport, filePath: string) {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileSync(filePath, experimentMarkdown(report));
+}
@@ -1,10 +1,26 @@
 // See: https://github.com/humanlayer/12-factor-agents/blob/main/content/factor-02-own-your-prompts.md
 
+import { confirm } from '@inquirer/prompts';
 import { Agent } from '@mastra/core/agent';
-import { model } from '../model';
-
-console.log('🎯 Factor 2: Own Your Prompts');
-console.log('===============================');
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+
+import { Expectations, isMainModule, type Scenario } from '../harness';
+import { inspectRequests, messageTexts, printProviderRequest } from '../inspect';
+import { modelFor } from '../model';
+import { traceAgentCall } from '../trace';
+import { usageTracker } from '../usage';
+import {
+  DEFAULT_EXPERIMENT_DATASET,
+  loadExperimentQuestions,
+  printExperimentReport,
+  runExperiment,
+  writeExperimentReport,
+} from './experiment';
+import { createJudgeAgent, DEFAULT_RUBRIC, judgeResponse, loadRubric, printJudgement } from './judge';
+import { lintAgent, lintPromptFile, lintTemplate, printLintWarnings } from './lint';
+import { DEFAULT_PROMPTS_DIR, PromptRegistry } from './prompt-registry';
+import { compareAnswers, DEFAULT_SNAPSHOT_DIR, diffLines, promptHash, SnapshotStore } from './snapshots';
 
 // ❌ ANTI-PATTERN: Framework-Hidden Prompts (Black Box Approach)
 // Many frameworks hide the actual prompts behind abstractions
@@ -31,7 +47,7 @@ class BlackBoxAgent {
     this.agent = new Agent({
       name: 'Black Box Agent',
       instructions: hiddenPrompt,
-      model,
+      model: modelFor('Black Box Agent'),
     });
   }
 
@@ -58,73 +74,22 @@ class BlackBoxAgent {
   }
 
   async ask(question: string) {
-    return await this.agent.generateVNext(question);
+    return await traceAgentCall(this.agent.name, question, () => this.agent.generateVNext(question));
   }
 }
 
 // ✅ GOOD PATTERN: Explicit Prompt Ownership
-// You write and control exactly what the LLM sees
-
-const DEPLOYMENT_PROMPTS = {
-  // Version 1: Basic deployment assistant
-  v1: `You are a deployment assistant. When asked about deployments, provide helpful information.`,
-
-  // Version 2: Improved with specific instructions
-  v2: `You are a deployment assistant that helps manage software deployments.
-
-When asked about deployments:
-- Consider the environment (staging vs production)
-- Think about rollback strategies
-- Mention any risks or precautions
-- Be specific and actionable
-
-Format your responses clearly and concisely.`,
-
-  // Version 3: Production-ready with detailed guidelines
-  v3: `You are an expert deployment assistant that ensures safe and reliable software deployments.
-
-Your responsibilities:
-1. Analyze deployment requests for potential risks
-2. Recommend appropriate deployment strategies
-3. Ensure proper testing procedures are followed
-4. Advise on rollback procedures
-
-Guidelines:
-- ALWAYS verify the target environment before proceeding
-- For production deployments, recommend staging tests first
-- Highlight any breaking changes or dependencies
-- Suggest monitoring and validation steps post-deployment
-- If uncertain about safety, recommend additional checks
-
-Response format:
-- Start with a risk assessment (Low/Medium/High)
-- List prerequisites if any
-- Provide step-by-step recommendations
-- Include rollback procedures
-- End with monitoring suggestions`,
-};
-
-// Enhanced: Prompt with template parameters
-const TEMPLATED_PROMPTS = {
-  deployment: (environment: string, service: string) => `
-You are a deployment assistant for ${service} in the ${environment} environment.
-
-Environment-specific considerations:
-- ${environment === 'production' ? 'EXTREME CAUTION REQUIRED - Production environment' : 'Standard deployment process'}
-- ${environment === 'staging' ? 'Test thoroughly before production' : 'Follow standard procedures'}
-
-Service: ${service}
-Environment: ${environment}
+// You write and control exactly what the LLM sees: every prompt is a versioned file in ./prompts
+// (or PROMPTS_DIR), with its owner, model hints and template variables in the frontmatter
 
-Provide deployment guidance with appropriate safety measures.
-`,
-};
+const registry = PromptRegistry.fromDirectory(process.env.PROMPTS_DIR || DEFAULT_PROMPTS_DIR);
 
 // Enhanced: Prompt validation and metrics
 interface PromptMetrics {
   version: string;
   responseTime: number;
-  tokenCount: number;
+  promptTokens: number;
+  completionTokens: number;
   safetyScore: number;
 }
 
@@ -139,47 +104,50 @@ const PromptEvaluator = {
 
   async measurePerformance(agent: Agent, question: string): Promise<PromptMetrics> {
     const startTime = Date.now();
-    const response = await agent.generateVNext(question);
+    const response = await traceAgentCall(agent.name, question, () => agent.generateVNext(question));
     const endTime = Date.now();
 
     return {
       version: agent.name || 'unknown',
       responseTime: endTime - startTime,
-      tokenCount: response.text.length, // Simplified - in real app, use actual token count
+      // Provider-reported usage across every step of the call
+      promptTokens: response.totalUsage.inputTokens ?? 0,
+      completionTokens: response.totalUsage.outputTokens ?? 0,
       safetyScore: this.evaluateSafety(response.text),
     };
   },
 };
 
-// Factory function for creating agents with explicit prompts
-function createDeploymentAgent(promptVersion: keyof typeof DEPLOYMENT_PROMPTS) {
-  const instructions = DEPLOYMENT_PROMPTS[promptVersion];
+// Factory function for creating agents with explicit prompts, resolved by "id@version"
+function createDeploymentAgent(ref: string) {
+  const prompt = registry.resolve(ref);
+  const instructions = registry.render(prompt.ref);
 
-  console.log(`\n📝 Using Prompt Version: ${promptVersion}`);
-  console.log('─'.repeat(50));
-  console.log(instructions);
-  console.log('─'.repeat(50));
+  console.log(`\n📝 Using Prompt Version: ${prompt.ref}`);
+  console.log(registry.preview(prompt.ref));
 
   return new Agent({
-    name: `Deployment Agent ${promptVersion}`,
+    name: `Deployment Agent ${prompt.version}`,
     instructions, // Explicit, visible, version-controlled
-    model,
+    model: modelFor(`Deployment Agent ${prompt.version}`),
   });
 }
 
 // Enhanced: Create agent with templated prompt
-function createTemplatedAgent(environment: string, service: string) {
-  const instructions = TEMPLATED_PROMPTS.deployment(environment, service);
+function createTemplatedAgent(environment: string, service: string, checks: string[] = []) {
+  const prompt = registry.resolve('deployment-environment@v1');
+  // Validated against the variables the prompt declares: an unknown environment throws here, not in production.
+  // The per-environment wording lives in the template's {{#if}} blocks, where it can be read and reviewed.
+  const variables = { service, environment, checks };
+  const instructions = registry.render(prompt.ref, variables);
 
-  console.log(`\n🔧 Using Templated Prompt for ${service} in ${environment}`);
-  console.log('─'.repeat(50));
-  console.log(instructions);
-  console.log('─'.repeat(50));
+  console.log(`\n🔧 Using Templated Prompt ${prompt.ref} for ${service} in ${environment}`);
+  console.log(registry.preview(prompt.ref, variables));
 
   return new Agent({
     name: `${service} ${environment} Agent`,
     instructions,
-    model,
+    model: modelFor(`${service} ${environment} Agent`),
   });
 }
 
@@ -224,11 +192,11 @@ async function demonstrateExplicitPrompts() {
   const deploymentQuestion = "Should I deploy the new user service to production?";
 
   // Test different prompt versions
-  for (const version of ['v1', 'v2', 'v3'] as const) {
-    const agent = createDeploymentAgent(version);
+  for (const version of registry.versions('deployment')) {
+    const agent = createDeploymentAgent(`deployment@${version}`);
 
     console.log(`\n💬 Question: "${deploymentQuestion}"`);
-    const response = await agent.generateVNext(deploymentQuestion);
+    const response = await traceAgentCall(agent.name, deploymentQuestion, () => agent.generateVNext(deploymentQuestion));
     console.log(`\n🤖 Response with ${version}:`);
     console.log(response.text);
     console.log('\n' + '─'.repeat(60));
@@ -249,13 +217,13 @@ async function demonstratePromptEvolution() {
 
   // Compare v1 (basic) vs v3 (production-ready)
   console.log('\n--- Response with v1 (basic) ---');
-  const v1Agent = createDeploymentAgent('v1');
-  const v1Response = await v1Agent.generateVNext(specificQuestion);
+  const v1Agent = createDeploymentAgent('deployment@v1');
+  const v1Response = await traceAgentCall(v1Agent.name, specificQuestion, () => v1Agent.generateVNext(specificQuestion));
   console.log(v1Response.text);
 
   console.log('\n--- Response with v3 (production-ready) ---');
-  const v3Agent = createDeploymentAgent('v3');
-  const v3Response = await v3Agent.generateVNext(specificQuestion);
+  const v3Agent = createDeploymentAgent('deployment@v3');
+  const v3Response = await traceAgentCall(v3Agent.name, specificQuestion, () => v3Agent.generateVNext(specificQuestion));
   console.log(v3Response.text);
 
   console.log('\n💡 Key Insight: Because we own the prompts, we can:');
@@ -265,34 +233,50 @@ async function demonstratePromptEvolution() {
   console.log('- Share prompts across teams for consistency');
 }
 
+// Test cases to evaluate prompt quality
+const TEST_CASES = [
+  "Should I deploy on Friday afternoon?",
+  "The staging environment is down. Can I deploy to production?",
+  "We need to deploy a database migration. What should I consider?",
+];
+
 async function demonstrateTestingPrompts() {
   console.log('\n\n🧪 TESTING PROMPTS: Systematic Evaluation');
   console.log('=========================================');
 
-  // Test cases to evaluate prompt quality
-  const testCases = [
-    "Should I deploy on Friday afternoon?",
-    "The staging environment is down. Can I deploy to production?",
-    "We need to deploy a database migration. What should I consider?",
-  ];
+  // The keyword checks only see words; the judge grades the response against v3's format rules
+  // (JUDGE_RUBRIC, default deployment-rubric.json)
+  const rubric = loadRubric(process.env.JUDGE_RUBRIC || DEFAULT_RUBRIC);
+  const judge = createJudgeAgent(registry, rubric);
 
   console.log('Running test cases against our prompts...\n');
 
-  for (const testCase of testCases) {
+  for (const testCase of TEST_CASES) {
     console.log(`📋 Test Case: "${testCase}"`);
 
     // Test with v3 (our best prompt)
-    const agent = createDeploymentAgent('v3');
-    const response = await agent.generateVNext(testCase);
+    const agent = createDeploymentAgent('deployment@v3');
+    const response = await traceAgentCall(agent.name, testCase, () => agent.generateVNext(testCase));
+
+    // Check if response includes key safety elements, each next to the rubric criterion that grades it properly
+    const text = response.text.toLowerCase();
+    const keywordChecks = [
+      { label: 'Risk Assessment', passed: text.includes('risk'), criterion: 'risk-assessment-first' },
+      { label: 'Rollback Plan', passed: text.includes('rollback'), criterion: 'rollback-procedure' },
+      { label: 'Monitoring', passed: text.includes('monitor'), criterion: 'monitoring-last' },
+    ];
+    for (const { label, passed } of keywordChecks) {
+      console.log(`✓ ${label}: ${passed ? '✅' : '❌'}`);
+    }
 
-    // Check if response includes key safety elements
-    const hasRiskAssessment = response.text.toLowerCase().includes('risk');
-    const hasRollback = response.text.toLowerCase().includes('rollback');
-    const hasMonitoring = response.text.toLowerCase().includes('monitor');
+    const judgement = await judgeResponse(judge, rubric, testCase, response.text);
+    printJudgement(judgement);
 
-    console.log('✓ Risk Assessment: ' + (hasRiskAssessment ? '✅' : '❌'));
-    console.log('✓ Rollback Plan: ' + (hasRollback ? '✅' : '❌'));
-    console.log('✓ Monitoring: ' + (hasMonitoring ? '✅' : '❌'));
+    const disagreements = keywordChecks.filter(({ passed, criterion }) =>
+      judgement.scores.some(score => score.criterion === criterion && score.passed !== passed));
+    if (disagreements.length > 0) {
+      console.log(`⚠️  Keyword checks and judge disagree on: ${disagreements.map(({ label }) => label).join(', ')}`);
+    }
     console.log('\n' + '─'.repeat(60) + '\n');
   }
 }
@@ -303,15 +287,18 @@ async function demonstrateTemplatedPrompts() {
 
   const question = "Should I deploy this service?";
 
-  // Compare different environments
-  const environments = ['staging', 'production'];
+  // Compare different environments; production also lists the checks that must pass first
+  const environments = [
+    { env: 'staging', checks: [] },
+    { env: 'production', checks: ['Staging sign-off recorded', 'Rollback plan reviewed', 'On-call engineer available'] },
+  ];
   const service = 'user-service';
 
-  for (const env of environments) {
-    const agent = createTemplatedAgent(env, service);
+  for (const { env, checks } of environments) {
+    const agent = createTemplatedAgent(env, service, checks);
 
     console.log(`\n💬 Question: "${question}"`);
-    const response = await agent.generateVNext(question);
+    const response = await traceAgentCall(agent.name, question, () => agent.generateVNext(question));
     console.log(`\n🤖 Response for ${env}:`);
     console.log(response.text);
     console.log('\n' + '─'.repeat(60));
@@ -323,46 +310,368 @@ async function demonstratePromptMetrics() {
   console.log('==================================================');
 
   const question = "Should I deploy the payment service to production?";
-  const versions: (keyof typeof DEPLOYMENT_PROMPTS)[] = ['v1', 'v2', 'v3'];
 
   console.log('Comparing prompt versions with metrics...\n');
 
-  for (const version of versions) {
-    const agent = createDeploymentAgent(version);
+  for (const version of registry.versions('deployment')) {
+    const agent = createDeploymentAgent(`deployment@${version}`);
     const metrics = await PromptEvaluator.measurePerformance(agent, question);
 
     console.log(`📈 ${version.toUpperCase()} Metrics:`);
     console.log(`   Response Time: ${metrics.responseTime}ms`);
-    console.log(`   Token Count: ${metrics.tokenCount}`);
+    console.log(`   Prompt Tokens: ${metrics.promptTokens}`);
+    console.log(`   Completion Tokens: ${metrics.completionTokens}`);
     console.log(`   Safety Score: ${metrics.safetyScore.toFixed(1)}%`);
     console.log(`   ${'🟢'.repeat(Math.floor(metrics.safetyScore / 20))}${'⚪'.repeat(5 - Math.floor(metrics.safetyScore / 20))}`);
     console.log('');
   }
 }
 
-async function main() {
-  console.log('\n🎯 Factor 2: Own Your Prompts');
-  console.log('=============================');
-  console.log('Demonstrating why explicit prompt ownership matters');
-  console.log('vs framework abstractions that hide the actual prompts\n');
+// 🧪 A/B EXPERIMENT
+// Every variant answers every question in the dataset (EXPERIMENT_DATASET, default experiment-questions.json)
+// EXPERIMENT_SAMPLES times (default 3). EXPERIMENT_VARIANTS=deployment@v2,deployment@v3 picks the variants,
+// the first being the baseline; by default every deployment version runs. Set EXPERIMENT_REPORT to a path
+// to save the report as markdown, e.g. next to the prompt change it supports.
+async function demonstratePromptExperiment() {
+  console.log('\n\n🧪 PROMPT EXPERIMENT: Comparing Variants with Repeated Samples');
+  console.log('=============================================================');
+
+  const samples = Number(process.env.EXPERIMENT_SAMPLES || 3);
+  if (!Number.isInteger(samples) || samples < 1) {
+    throw new Error(`Invalid EXPERIMENT_SAMPLES "${process.env.EXPERIMENT_SAMPLES}". Expected a positive integer`);
+  }
+
+  const requested = (process.env.EXPERIMENT_VARIANTS ?? '').split(',').map(ref => ref.trim()).filter(Boolean);
+  const variants = (requested.length > 0 ? requested : registry.versions('deployment').map(version => `deployment@${version}`))
+    .map(ref => registry.resolve(ref).ref);
+  const agents = new Map(variants.map(ref => [ref, createDeploymentAgent(ref)]));
+  const model = modelFor(agents.get(variants[0]!)!.name);
+
+  const report = await runExperiment(
+    {
+      name: variants.join(' vs '),
+      model: `${model.provider}:${model.modelId}`,
+      variants,
+      questions: loadExperimentQuestions(process.env.EXPERIMENT_DATASET || DEFAULT_EXPERIMENT_DATASET),
+      samples,
+      alpha: 0.05,
+    },
+    async (variant, question) => {
+      const metrics = await PromptEvaluator.measurePerformance(agents.get(variant)!, question);
+      return {
+        safetyScore: metrics.safetyScore,
+        completionTokens: metrics.completionTokens,
+        promptTokens: metrics.promptTokens,
+        responseTime: metrics.responseTime,
+      };
+    },
+  );
+
+  printExperimentReport(report);
+
+  if (process.env.EXPERIMENT_REPORT) {
+    writeExperimentReport(report, process.env.EXPERIMENT_REPORT);
+    console.log(`\n💾 Report saved to ${process.env.EXPERIMENT_REPORT}`);
+  }
+
+  const expectations = new Expectations();
+  const runs = report.questions.length * samples;
+  expectations.check('Runs per Variant', variants.every(variant => report.summaries[variant]?.safetyScore?.n === runs));
+  // The production-ready prompt should be measurably safer than the basic one
+  // A degenerate test (no variance, e.g. on the mock model) cannot confirm it, so then only the means are compared
+  const safety = report.comparisons.find(comparison => comparison.metric === 'safetyScore' && comparison.baseline === 'deployment@v1' && comparison.candidate === 'deployment@v3');
+  if (safety) {
+    const { difference, pValue, significant } = safety;
+    expectations.check(
+      'v3 Safer than v1',
+      difference > 0 && (pValue === undefined || significant),
+      `difference ${difference.toFixed(1)}, ${pValue === undefined ? 'degenerate t-test' : `p=${pValue.toFixed(3)}`}`,
+    );
+  }
+
+  expectations.verify();
+}
+
+// 📸 SNAPSHOT MODE
+// Runs every deployment version on the test cases and compares each answer with its golden output in
+// snapshots/ (or SNAPSHOT_DIR). SNAPSHOTS=check (the default) fails on any difference, SNAPSHOTS=update
+// accepts every new answer, and SNAPSHOTS=review shows each difference and asks whether to accept it.
+// Another model's answers are never the same text, so a check only compares snapshots recorded with the
+// model the version runs on; the committed ones were recorded with the mock model.
+const snapshotModeSchema = z.enum(['check', 'update', 'review']);
+
+async function demonstratePromptSnapshots() {
+  console.log('\n\n📸 PROMPT SNAPSHOTS: Golden Outputs per Prompt Version');
+  console.log('=====================================================');
+
+  const parsedMode = snapshotModeSchema.safeParse(process.env.SNAPSHOTS || 'check');
+  if (!parsedMode.success) {
+    throw new Error(`Invalid SNAPSHOTS "${process.env.SNAPSHOTS}". Expected one of: ${snapshotModeSchema.options.join(', ')}`);
+  }
+  const mode = parsedMode.data;
+  if (mode === 'review' && !process.stdin.isTTY) {
+    throw new Error('SNAPSHOTS=review needs an interactive terminal. Use SNAPSHOTS=update to accept every new output');
+  }
+
+  const store = new SnapshotStore(process.env.SNAPSHOT_DIR || DEFAULT_SNAPSHOT_DIR);
+  const expectations = new Expectations();
+
+  for (const version of registry.versions('deployment')) {
+    const ref = `deployment@${version}`;
+    const agent = createDeploymentAgent(ref);
+    const model = modelFor(agent.name);
+    const modelLabel = `${model.provider}:${model.modelId}`;
+    const hash = promptHash(registry.render(ref));
+    const golden = store.load(ref);
+
+    if (mode === 'check' && golden && golden.model !== modelLabel) {
+      console.log(`\n⏭️  ${ref}: snapshots were recorded with ${golden.model}; this run uses ${modelLabel}, so they are not compared`);
+      console.log(`   To check this model, record its snapshots in their own directory: SNAPSHOTS=update SNAPSHOT_DIR=<dir>`);
+      continue;
+    }
+
+    if (golden && golden.promptHash !== hash) console.log(`\n✏️  ${ref} has changed since its snapshots were recorded`);
+    if (golden && golden.model !== modelLabel) console.log(`\n⚠️  Snapshots were recorded with ${golden.model}; this run uses ${modelLabel}`);
+
+    const outputs: Record<string, string> = {};
+    let unchanged = 0;
+    let accepted = 0;
+
+    for (const testCase of TEST_CASES) {
+      const response = await traceAgentCall(agent.name, testCase, () => agent.generateVNext(testCase));
+      const goldenOutput = golden?.outputs[testCase];
+      const comparison = compareAnswers(goldenOutput, response.text);
+
+      const icon = { unchanged: '✅', reworded: '🔤', changed: '❌', new: '🆕' }[comparison.status];
+      console.log(`\n${icon} ${ref} › "${testCase}": ${comparison.status}`);
 
-  // Show the anti-pattern first
-  await demonstrateBlackBoxProblem();
+      if (comparison.status === 'unchanged') {
+        unchanged++;
+      } else if (goldenOutput !== undefined) {
+        const detail = comparison.changes.length > 0 ? comparison.changes.join('; ') : 'same risk level, sections and steps';
+        console.log(`   ${detail} (similarity ${comparison.similarity.toFixed(2)})`);
+        for (const line of diffLines(goldenOutput, response.text)) console.log(`   ${line}`);
+      }
 
-  // Show the better approach
-  await demonstrateExplicitPrompts();
+      const accept = comparison.status !== 'unchanged' && (mode === 'update'
+        || (mode === 'review' && await confirm({ message: `Accept the new output for ${ref} › "${testCase}"?`, default: false })));
+      if (accept) accepted++;
 
-  // Show how we can evolve prompts
-  await demonstratePromptEvolution();
+      const kept = accept ? response.text : goldenOutput;
+      if (kept !== undefined) outputs[testCase] = kept;
+    }
+
+    if (accepted > 0 || (mode === 'update' && golden?.promptHash !== hash)) {
+      store.save({ prompt: ref, model: modelLabel, promptHash: hash, outputs });
+      console.log(`\n💾 ${ref}: ${accepted} new golden output(s) saved`);
+    }
+
+    if (mode === 'check') {
+      expectations.check(`${ref} Snapshots`, unchanged === TEST_CASES.length, `${TEST_CASES.length - unchanged} differ; accept them with SNAPSHOTS=update or SNAPSHOTS=review`);
+    }
+  }
 
-  // Show how we can test prompts
-  await demonstrateTestingPrompts();
+  expectations.verify();
+}
 
-  // Show templated prompts
-  await demonstrateTemplatedPrompts();
+async function demonstratePromptRegistry() {
+  console.log('\n\n🗂️  PROMPT REGISTRY: Prompts as Versioned Files');
+  console.log('=============================================');
 
-  // Show prompt metrics
-  await demonstratePromptMetrics();
+  console.log('\n📚 Registered prompts:');
+  for (const prompt of registry.list()) {
+    console.log(`   ${prompt.ref.padEnd(28)} ${prompt.owner.padEnd(16)} ${prompt.description ?? ''}`);
+  }
+
+  const expectations = new Expectations();
+  expectations.equal('Deployment Versions', registry.versions('deployment'), ['v1', 'v2', 'v3']);
+  expectations.equal('Latest Version', registry.resolve('deployment').ref, 'deployment@v3');
+
+  // v2 and v3 share one copy of the safety guidelines
+  const sharedGuidelines = 'ALWAYS verify the target environment before proceeding';
+  expectations.check(
+    'Shared Safety Guidelines',
+    ['deployment@v2', 'deployment@v3'].every(ref => registry.resolve(ref).partials.includes('safety-guidelines') && registry.render(ref).includes(sharedGuidelines)),
+  );
+
+  // Conditionals pick the environment's wording; an empty list skips the checks section
+  const staging = registry.render('deployment-environment@v1', { service: 'user-service', environment: 'staging' });
+  expectations.check('Staging Wording', staging.includes('Test thoroughly before production') && !staging.includes('EXTREME CAUTION'));
+  expectations.check('Empty Checks Omitted', !staging.includes('Required checks'));
+
+  // Variables are checked against the frontmatter before a prompt ever reaches a model
+  const attempts: Array<{ label: string; variables: Record<string, string> }> = [
+    { label: 'Missing Variables Rejected', variables: { service: 'user-service' } },
+    { label: 'Unknown Environment Rejected', variables: { service: 'user-service', environment: 'prod' } },
+    { label: 'Extra Variables Rejected', variables: { service: 'user-service', environment: 'staging', region: 'eu-west-1' } },
+  ];
+  for (const { label, variables } of attempts) {
+    try {
+      registry.render('deployment-environment@v1', variables);
+      expectations.check(label, false, 'rendered without an error');
+    } catch (error) {
+      console.log(`\n🛑 ${error instanceof Error ? error.message : String(error)}`);
+      expectations.check(label, true);
+    }
+  }
+
+  expectations.verify();
+}
+
+// 🔎 THE FULL REQUEST
+// The instructions are only the system message. The provider also gets the user message, and for structured
+// output a JSON schema; capturing the request as the provider receives it shows all of it.
+async function demonstrateProviderRequest() {
+  console.log('\n\n🔎 THE FULL REQUEST: What the Model Actually Receives');
+  console.log('=====================================================');
+
+  const question = TEST_CASES[0]!;
+  const agent = createDeploymentAgent('deployment@v3');
+  const { requests } = await inspectRequests(() =>
+    traceAgentCall(agent.name, question, () => agent.generateVNext(question)));
+  for (const request of requests) printProviderRequest(request);
+
+  const rubric = loadRubric(process.env.JUDGE_RUBRIC || DEFAULT_RUBRIC);
+  const judge = createJudgeAgent(registry, rubric);
+  const { requests: judgeRequests } = await inspectRequests(() =>
+    judgeResponse(judge, rubric, question, 'Risk assessment: High. Wait until Monday morning.'));
+  // The judgement schema is long; the rest of the request is what matters here
+  for (const request of judgeRequests) printProviderRequest(request, { schemas: false });
+
+  const [request] = requests;
+  const [judgeRequest] = judgeRequests;
+  const expectations = new Expectations();
+  console.log('');
+  expectations.equal('Requests Captured', [requests.length, judgeRequests.length], [1, 1]);
+  expectations.equal('System Message Is the Rendered Prompt', request && messageTexts(request, 'system'), [registry.render('deployment@v3')]);
+  expectations.equal('User Message Is the Question', request && messageTexts(request, 'user'), [question]);
+  expectations.check('Judge Request Carries Its Schema', judgeRequest?.responseFormat?.type === 'json' && judgeRequest.responseFormat.schema !== undefined);
+  expectations.verify();
+}
+
+// 🔍 PROMPT LINTING
+// A draft with one of each mistake: it contradicts itself on length, asks for every change, uses an undeclared
+// {{team}}, never uses its environment variable, and tells the agent to call a rollback tool it does not have
+const DRAFT_RELEASE_PROMPT = `You are a release assistant for {{service}}.
+
+Always keep answers concise.
+Use the checkDeployStatus tool before answering, then call the rollbackTool if the release failed.
+List every change in the release and give a detailed explanation of each one.
+Tag the on-call engineer for {{team}}.`;
+
+// A hotfix prompt that includes the shared safety guidelines and then overrides one of them
+const HOTFIX_PROMPT = `You are a hotfix assistant.
+
+{{> safety-guidelines}}
+
+For hotfixes, never verify the target environment; speed matters most.
+Answer in at most 3 steps.`;
+
+const checkDeployStatusTool = createTool({
+  id: 'check-deploy-status',
+  description: 'Reports whether the latest release of a service is healthy',
+  inputSchema: z.object({ service: z.string() }),
+  outputSchema: z.object({ healthy: z.boolean() }),
+  execute: async () => ({ healthy: true }),
+});
+
+async function demonstratePromptLinting() {
+  console.log('\n\n🔍 PROMPT LINTING: Catching Mistakes Before the Model Does');
+  console.log('=========================================================');
+
+  // None of factor 02's agents has tools, so any tool a prompt mentions is one it cannot call
+  console.log('\n📚 Registered prompts:');
+  for (const prompt of registry.list()) {
+    console.log(`\n   ${prompt.ref}`);
+    printLintWarnings(lintPromptFile(registry, prompt.ref, []));
+  }
+
+  const draftAgent = new Agent({
+    name: 'ReleaseDraftAgent',
+    instructions: DRAFT_RELEASE_PROMPT.replace('{{service}}', 'payment-service'),
+    model: modelFor('ReleaseDraftAgent'),
+    tools: { checkDeployStatusTool },
+  });
+
+  console.log('\n📝 Draft template (release-notes.draft.md):');
+  console.log('─'.repeat(50));
+  for (const [index, line] of DRAFT_RELEASE_PROMPT.split('\n').entries()) console.log(`${String(index + 1).padStart(3)} | ${line}`);
+  console.log('─'.repeat(50));
+  const templateWarnings = lintTemplate({
+    source: 'release-notes.draft.md',
+    template: DRAFT_RELEASE_PROMPT,
+    variables: { service: { type: 'string', optional: false }, environment: { type: 'string', optional: false } },
+    tools: ['checkDeployStatusTool', 'check-deploy-status'],
+  });
+  printLintWarnings(templateWarnings);
+
+  console.log(`\n🤖 Agent ${draftAgent.name}, checked against its tools:`);
+  const agentWarnings = await lintAgent(draftAgent);
+  printLintWarnings(agentWarnings);
+
+  // Partials are linted with the template that includes them, and warn on their own lines
+  console.log('\n🧩 Hotfix template including partials/safety-guidelines.md:');
+  const partialWarnings = lintTemplate({
+    source: 'hotfix.draft.md',
+    template: HOTFIX_PROMPT,
+    variables: {},
+    partials: [{ source: 'partials/safety-guidelines.md', template: registry.partialTemplate('safety-guidelines') }],
+  });
+  printLintWarnings(partialWarnings);
+
+  const draftRules = [...new Set(templateWarnings.map(warning => warning.rule))];
+  draftRules.sort();
+
+  const expectations = new Expectations();
+  console.log('');
+  expectations.equal(
+    'Draft Rules Flagged',
+    draftRules,
+    ['contradiction', 'unbounded-output', 'undeclared-variable', 'unknown-tool', 'unused-variable'],
+  );
+  expectations.equal(
+    'Unknown Tools',
+    agentWarnings.filter(warning => warning.rule === 'unknown-tool').map(warning => `line ${warning.line}: ${warning.message.split('"')[1]}`),
+    ['line 4: rollbackTool'],
+  );
+  expectations.check('Unfilled Placeholder', agentWarnings.some(warning => warning.rule === 'undeclared-variable' && warning.line === 6));
+  expectations.equal(
+    'Partial Contradicted',
+    partialWarnings.map(warning => `${warning.source}:${warning.line} ${warning.rule}`),
+    ['hotfix.draft.md:5 contradiction'],
+  );
+  expectations.verify();
+}
+
+const demoScenarios: Scenario[] = [
+  { name: 'black-box', description: 'The anti-pattern: prompts hidden behind framework abstractions', run: demonstrateBlackBoxProblem },
+  { name: 'explicit-prompts', description: 'Explicit, versioned prompts answering the same question', run: demonstrateExplicitPrompts },
+  { name: 'provider-request', description: 'The exact messages and schemas a prompt version sends to the model', run: demonstrateProviderRequest },
+  { name: 'prompt-evolution', description: 'How a prompt improves from v1 to v3', run: demonstratePromptEvolution },
+  { name: 'prompt-testing', description: 'Keyword checks against each prompt version', run: demonstrateTestingPrompts },
+  { name: 'templated-prompts', description: 'Prompts generated per environment and service', run: demonstrateTemplatedPrompts },
+  { name: 'prompt-metrics', description: 'Response time and token usage per prompt version', run: demonstratePromptMetrics },
+  { name: 'prompt-snapshots', description: 'Answers per prompt version compared with stored golden outputs', run: demonstratePromptSnapshots },
+  { name: 'prompt-lint', description: 'Lint prompts for contradictions, unbounded output, variables and tools', run: demonstratePromptLinting },
+  { name: 'prompt-registry', description: 'Prompt files with owners, model hints and validated variables', run: demonstratePromptRegistry },
+];
+
+// The experiment is opt-in (pnpm cli run factor02 prompt-experiment): it makes variants × questions × samples
+// model calls. pnpm factor02 runs the demos only
+export const scenarios: Scenario[] = [
+  ...demoScenarios,
+  { name: 'prompt-experiment', description: 'Prompt variants compared over a question dataset with repeated samples', run: demonstratePromptExperiment },
+];
+
+async function main() {
+  console.log('\n🎯 Factor 2: Own Your Prompts');
+  console.log('=============================');
+  console.log('Demonstrating why explicit prompt ownership matters');
+  console.log('vs framework abstractions that hide the actual prompts\n');
+
+  for (const scenario of demoScenarios) {
+    await scenario.run();
+  }
 
   console.log('\n\n🎉 Factor 2 Summary');
   console.log('==================');
@@ -380,6 +689,11 @@ async function main() {
   console.log('\n💡 Remember: Your prompts are the primary interface');
   console.log('   between your application logic and the LLM.');
   console.log('   Treat them as first-class code!\n');
+  console.log('🧪 Compare prompt variants over repeated samples: pnpm cli run factor02 prompt-experiment');
+
+  usageTracker.printSummary();
 }
 
-main().catch(console.error);
\ No newline at end of file
+if (isMainModule(import.meta.url)) {
+  main().catch(console.error);
+}
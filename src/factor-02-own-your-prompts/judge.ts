@@ -0,0 +1,98 @@
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+import { Agent } from '@mastra/core/agent';
+import { z } from 'zod';
+
+import { modelFor } from '../model';
+import { traceAgentCall } from '../trace';
+import type { PromptRegistry } from './prompt-registry';
+
+// ⚖️ LLM-AS-JUDGE
+// Keyword checks see that "rollback" appears, not whether the response contains a rollback procedure.
+// A separate judge agent scores each response against a rubric of criteria instead, returning a score
+// and a justification per criterion as structured output. The judge's own prompt lives in the registry
+// (response-judge@v1), so it is versioned and reviewed like any other.
+
+const rubricSchema = z.object({
+  name: z.string(),
+  // Lowest score (0-5) that counts as meeting a criterion
+  passingScore: z.number().int().min(0).max(5).default(4),
+  criteria: z.array(z.object({
+    id: z.string().regex(/^[a-z][\da-z-]*$/, 'criterion ids are kebab-case'),
+    description: z.string(),
+  })).min(1),
+});
+
+export type Rubric = z.infer<typeof rubricSchema>;
+
+export const DEFAULT_RUBRIC = fileURLToPath(new URL('deployment-rubric.json', import.meta.url));
+
+export function loadRubric(filePath: string = DEFAULT_RUBRIC): Rubric {
+  return rubricSchema.parse(JSON.parse(readFileSync(filePath, 'utf8')));
+}
+
+const judgementSchema = z.object({
+  scores: z.array(z.object({
+    criterion: z.string(),
+    score: z.number().int().min(0).max(5),
+    justification: z.string(),
+  })),
+});
+
+export interface CriterionScore {
+  criterion: string;
+  description: string;
+  score: number;
+  passed: boolean;
+  justification: string;
+}
+
+export interface Judgement {
+  rubric: string;
+  scores: CriterionScore[];
+  // Mean score as a percentage of the maximum, comparable with PromptEvaluator.evaluateSafety
+  overall: number;
+}
+
+export function createJudgeAgent(registry: PromptRegistry, rubric: Rubric, promptRef = 'response-judge@v1') {
+  return new Agent({
+    name: 'PromptJudge',
+    instructions: registry.render(promptRef, {
+      criteria: rubric.criteria.map(criterion => `${criterion.id}: ${criterion.description}`),
+      passingScore: rubric.passingScore,
+    }),
+    model: modelFor('PromptJudge'),
+  });
+}
+
+export async function judgeResponse(judge: Agent, rubric: Rubric, question: string, response: string): Promise<Judgement> {
+  const message = `Question:\n${question}\n\nResponse to grade:\n${response}`;
+  // Mastra validates the judge's JSON against the schema and throws when it does not match
+  const result = await traceAgentCall(judge.name, question, () => judge.generateVNext(message, { output: judgementSchema }));
+  const byCriterion = new Map(result.object.scores.map(score => [score.criterion, score]));
+
+  // A criterion the judge skipped would otherwise read as a silent pass or fail
+  const missing = rubric.criteria.filter(criterion => !byCriterion.has(criterion.id)).map(criterion => criterion.id);
+  if (missing.length > 0) {
+    throw new Error(`Judge did not score ${missing.join(', ')}. Expected one score per criterion of rubric "${rubric.name}"`);
+  }
+
+  const scores = rubric.criteria.map(({ id, description }) => {
+    const { score, justification } = byCriterion.get(id)!;
+    return { criterion: id, description, score, passed: score >= rubric.passingScore, justification };
+  });
+
+  let total = 0;
+  for (const { score } of scores) total += score;
+  return { rubric: rubric.name, scores, overall: (total / (scores.length * 5)) * 100 };
+}
+
+export function printJudgement(judgement: Judgement) {
+  const width = Math.max(...judgement.scores.map(score => score.criterion.length)) + 2;
+
+  console.log(`⚖️  Judge (${judgement.rubric}): ${judgement.overall.toFixed(1)}%`);
+  for (const { criterion, score, passed, justification } of judgement.scores) {
+    console.log(`   ${passed ? '✅' : '❌'} ${criterion.padEnd(width)}${score}/5  ${justification}`);
+  }
+}
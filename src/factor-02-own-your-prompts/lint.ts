@@ -0,0 +1,260 @@
+import type { Agent } from '@mastra/core/agent';
+
+import type { PromptRegistry, VariableSpec } from './prompt-registry';
+import { parseTemplate, templateReferences } from './template';
+
+// 🔍 PROMPT LINTER
+// Catches the mistakes that slip into hand-written prompts before a model ever sees them:
+//   contradiction         "Always be concise" and "Give a detailed explanation" in the same prompt
+//   unbounded-output      an output format with no limit on its length ("List every ...")
+//   undeclared-variable   a {{placeholder}} the template does not declare, or one left unrendered in instructions
+//   unused-variable       a declared template variable the template never uses
+//   unknown-tool          a tool the instructions mention but the agent does not have
+// Each warning carries the line it refers to, in the prompt file or in the agent's instructions.
+
+export type LintRule = 'contradiction' | 'unbounded-output' | 'undeclared-variable' | 'unused-variable' | 'unknown-tool';
+
+export interface LintWarning {
+  rule: LintRule;
+  // File or agent the warning belongs to, e.g. "deployment.v3.md"
+  source: string;
+  line: number;
+  message: string;
+}
+
+// A prompt's lines can come from several files: its own and the partials it includes
+interface Line {
+  source: string;
+  number: number;
+  text: string;
+}
+
+function linesOf(source: string, text: string, firstLine: number): Line[] {
+  return text.split('\n').map((line, index) => ({ source, number: firstLine + index, text: line }));
+}
+
+// How one line refers to another: "line 3" in the same file, "partials/safety-guidelines.md:2" in another
+const locate = (line: Line, from: Line) => (line.source === from.source ? `line ${line.number}` : `${line.source}:${line.number}`);
+
+// 🤝 CONTRADICTIONS
+
+// Instructions that pull the answer's length in opposite directions
+const OPPOSING_STYLES: Array<[string, RegExp, string, RegExp]> = [
+  ['short', /\b(concise(ly)?|brief(ly)?|short|succinct(ly)?)\b/i, 'long', /\b(detailed|comprehensive|thorough(ly)?|exhaustive|in[ -]depth|elaborate)\b/i],
+  ['JSON', /\b(json)\b/i, 'prose', /\b(markdown|prose|plain text)\b/i],
+];
+
+const POSITIVE = /\b(always|must|should|make sure|ensure)\b/i;
+const NEGATIVE = /\b(never|don't|do not|must not|should not|avoid)\b/i;
+const DIRECTIVE_WORDS = new Set(['always', 'must', 'should', 'make', 'sure', 'ensure', 'never', 'don', 'not', 'avoid', 'your', 'with', 'that', 'this', 'when', 'before', 'after', 'from', 'into', 'have']);
+
+function contentWords(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z]+/).filter(word => word.length > 3 && !DIRECTIVE_WORDS.has(word)));
+}
+
+function contradictions(lines: Line[]): LintWarning[] {
+  const warnings: LintWarning[] = [];
+
+  // "ALWAYS verify the environment" against "Never verify the environment": opposite directives on the same words
+  const positives = lines.filter(line => POSITIVE.test(line.text) && !NEGATIVE.test(line.text));
+  const negatives = lines.filter(line => NEGATIVE.test(line.text));
+  for (const negative of negatives) {
+    const negativeWords = contentWords(negative.text);
+    for (const positive of positives) {
+      const shared = [...contentWords(positive.text)].filter(word => negativeWords.has(word));
+      if (shared.length >= 2) {
+        warnings.push({
+          rule: 'contradiction',
+          source: negative.source,
+          line: negative.number,
+          message: `Contradicts ${locate(positive, negative)}: both direct "${shared.join(' ')}" in opposite ways`,
+        });
+      }
+    }
+  }
+
+  for (const [firstName, first, secondName, second] of OPPOSING_STYLES) {
+    const firstLine = lines.find(line => first.test(line.text));
+    const secondLine = lines.find(line => second.test(line.text) && line !== firstLine);
+    if (firstLine && secondLine) {
+      // Reported on the later of the two lines
+      const later = lines.indexOf(firstLine) < lines.indexOf(secondLine) ? secondLine : firstLine;
+      warnings.push({
+        rule: 'contradiction',
+        source: later.source,
+        line: later.number,
+        message: `Asks for ${firstName} output (${locate(firstLine, later)}) and ${secondName} output (${locate(secondLine, later)})`,
+      });
+    }
+  }
+
+  return warnings;
+}
+
+// 📏 UNBOUNDED OUTPUT
+
+const UNBOUNDED_REQUEST = /\b(list|include|mention|describe|enumerate|explain)\s+(all|every(thing)?|as many)\b/i;
+const FORMAT_REQUEST = /\b(response format|output format|format your|respond (with|in)|provide|list)\b/i;
+const LENGTH_BOUND = /\b(at most|no more than|up to|maximum|fewer than|under \d+|concise(ly)?|brief(ly)?|short|one sentence|single sentence|\d+\s+(words|sentences|bullets|bullet points|items|steps|lines|paragraphs))\b/i;
+
+function unboundedOutput(lines: Line[]): LintWarning[] {
+  const warnings: LintWarning[] = lines
+    .filter(line => UNBOUNDED_REQUEST.test(line.text))
+    .map(line => ({
+      rule: 'unbounded-output' as const,
+      source: line.source,
+      line: line.number,
+      message: `"${UNBOUNDED_REQUEST.exec(line.text)![0]}" has no upper limit; cap it, e.g. "the 5 most important"`,
+    }));
+
+  const formatLine = lines.find(line => FORMAT_REQUEST.test(line.text));
+  if (formatLine && !lines.some(line => LENGTH_BOUND.test(line.text))) {
+    warnings.push({
+      rule: 'unbounded-output',
+      source: formatLine.source,
+      line: formatLine.number,
+      message: 'Asks for output but never bounds its length; say how long the answer may be, e.g. "at most 5 steps"',
+    });
+  }
+
+  return warnings;
+}
+
+// 🔧 TOOL MENTIONS
+
+// "the lookup tool", "call convertUnitsTool", "`check_status`": names the instructions expect the agent to call
+const TOOL_MENTIONS = [
+  /\b(?:use|call|invoke|run)\s+(?:the\s+)?`?([\w-]+)`?\s+tool\b/gi,
+  /\bthe\s+`?([\w-]+)`?\s+tool\b/gi,
+  /\b([a-z]+(?:[A-Z][a-z]*)*Tool)\b/g,
+  /`([a-z]+(?:[_-][a-z]+)+|[a-z]+(?:[A-Z][a-z]*)+)`/g,
+];
+const GENERIC_TOOL_WORDS = new Set(['appropriate', 'right', 'correct', 'available', 'relevant', 'following', 'same', 'this', 'that', 'each', 'any', 'a', 'one', 'best']);
+
+const toolKey = (name: string) => name.toLowerCase().replaceAll(/[^a-z\d]/g, '').replace(/tool$/, '');
+
+function unknownTools(lines: Line[], tools: string[]): LintWarning[] {
+  const known = new Set(tools.map(tool => toolKey(tool)));
+  const warnings: LintWarning[] = [];
+
+  for (const line of lines) {
+    const mentioned = new Set(TOOL_MENTIONS.flatMap(pattern => [...line.text.matchAll(pattern)].map(match => match[1]!)));
+    for (const name of mentioned) {
+      if (GENERIC_TOOL_WORDS.has(name.toLowerCase()) || known.has(toolKey(name))) continue;
+      warnings.push({
+        rule: 'unknown-tool',
+        source: line.source,
+        line: line.number,
+        message: `Mentions tool "${name}", which the agent does not have. Available: ${tools.join(', ') || '(none)'}`,
+      });
+    }
+  }
+  return warnings;
+}
+
+const PLACEHOLDER = /{{\s*([^}]*?)\s*}}/g;
+
+function sortWarnings(warnings: LintWarning[]): LintWarning[] {
+  warnings.sort((left, right) => left.source.localeCompare(right.source) || left.line - right.line || left.rule.localeCompare(right.rule));
+  return warnings;
+}
+
+// 📋 ENTRY POINTS
+
+// Instructions as the agent receives them, checked against the agent's real tool set
+export function lintInstructions(source: string, instructions: string, tools: string[]): LintWarning[] {
+  const lines = linesOf(source, instructions, 1);
+  const placeholders = lines.flatMap(line => [...line.text.matchAll(PLACEHOLDER)].map(match => ({
+    rule: 'undeclared-variable' as const,
+    source,
+    line: line.number,
+    message: `Placeholder "${match[0]}" was never filled in`,
+  })));
+
+  return sortWarnings([
+    ...contradictions(lines),
+    ...unboundedOutput(lines),
+    ...placeholders,
+    ...unknownTools(lines, tools),
+  ]);
+}
+
+export async function lintAgent(agent: Agent): Promise<LintWarning[]> {
+  const instructions = await agent.getInstructions();
+  const tools = Object.entries(await agent.getTools()).flatMap(([key, tool]) => [key, (tool as { id?: string }).id ?? key]);
+  return lintInstructions(`agent ${agent.name}`, String(instructions), [...new Set(tools)]);
+}
+
+export interface TemplateLintInput {
+  // File name shown in warnings, e.g. "deployment.v3.md"
+  source: string;
+  template: string;
+  // Line of the file the template starts on, after the frontmatter
+  firstLine?: number;
+  variables: Record<string, VariableSpec>;
+  // Variables used by the partials the template includes, so they do not count as unused
+  usedByPartials?: string[];
+  // The partials the template includes, linted with it: a partial can contradict the template, or bound its output
+  partials?: Array<{ source: string; template: string }>;
+  // Tools of the agent the prompt is written for; tool mentions are only checked when given
+  tools?: string[];
+}
+
+// A prompt template, before rendering, against the variables it declares
+export function lintTemplate({ source, template, firstLine = 1, variables, usedByPartials = [], partials = [], tools }: TemplateLintInput): LintWarning[] {
+  const lines = [
+    ...linesOf(source, template, firstLine),
+    ...partials.flatMap(partial => linesOf(partial.source, partial.template, 1)),
+  ];
+  const references = templateReferences(parseTemplate(template, source, firstLine));
+  const used = new Set([...references.map(reference => reference.name), ...usedByPartials]);
+
+  const undeclared = references
+    .filter(reference => !(reference.name in variables))
+    .map(reference => ({
+      rule: 'undeclared-variable' as const,
+      source,
+      line: reference.line,
+      message: `Uses "${reference.name}", which the frontmatter does not declare`,
+    }));
+  const unused = Object.keys(variables)
+    .filter(name => !used.has(name))
+    .map(name => ({
+      rule: 'unused-variable' as const,
+      source,
+      line: firstLine,
+      message: `Variable "${name}" is declared but the template never uses it`,
+    }));
+
+  return sortWarnings([
+    ...contradictions(lines),
+    ...unboundedOutput(lines),
+    ...undeclared,
+    ...unused,
+    ...(tools ? unknownTools(lines, tools) : []),
+  ]);
+}
+
+// A prompt in the registry with the partials it includes, each warning on a line of the file it comes from
+export function lintPromptFile(registry: PromptRegistry, ref: string, tools?: string[]): LintWarning[] {
+  const prompt = registry.resolve(ref);
+  return lintTemplate({
+    source: prompt.file,
+    template: prompt.template,
+    firstLine: prompt.firstLine,
+    variables: prompt.variables,
+    usedByPartials: registry.references(prompt.ref).map(reference => reference.name),
+    partials: prompt.partials.map(name => ({ source: `partials/${name}.md`, template: registry.partialTemplate(name) })),
+    tools,
+  });
+}
+
+export function printLintWarnings(warnings: LintWarning[]) {
+  if (warnings.length === 0) {
+    console.log('   ✅ No warnings');
+    return;
+  }
+  for (const warning of warnings) {
+    console.log(`   ⚠️  ${warning.source}:${warning.line} [${warning.rule}] ${warning.message}`);
+  }
+}
@@ -0,0 +1,54 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { PromptRegistry } from './prompt-registry';
+
+const PROMPT = `---
+id: helper
+version: v1
+owner: platform-team
+---
+You are a helper.
+
+{{> guidelines}}`;
+
+let directory: string | undefined;
+
+// A prompts directory with one prompt including "guidelines", and the given partials
+function registryWith(partials: Record<string, string>): PromptRegistry {
+  directory = mkdtempSync(path.join(tmpdir(), 'prompts-'));
+  mkdirSync(path.join(directory, 'partials'));
+  writeFileSync(path.join(directory, 'helper.v1.md'), PROMPT);
+  for (const [name, template] of Object.entries(partials)) writeFileSync(path.join(directory, 'partials', `${name}.md`), template);
+  return PromptRegistry.fromDirectory(directory);
+}
+
+afterEach(() => {
+  if (directory) rmSync(directory, { recursive: true, force: true });
+  directory = undefined;
+});
+
+describe('PromptRegistry partials', () => {
+  it('renders nested partials, each once per include', () => {
+    const registry = registryWith({ guidelines: '- Be careful\n{{> footer}}\n{{> footer}}', footer: 'Thanks.' });
+
+    expect(registry.resolve('helper').partials).toEqual(['guidelines', 'footer']);
+    expect(registry.render('helper')).toBe('You are a helper.\n\n- Be careful\nThanks.\nThanks.');
+  });
+
+  it('rejects a partial that includes itself when the registry loads', () => {
+    expect(() => registryWith({ guidelines: 'Loop: {{> guidelines}}' })).toThrow('Partial cycle: guidelines -> guidelines');
+  });
+
+  it('rejects partials that include each other', () => {
+    expect(() => registryWith({ guidelines: '{{> safety}}', safety: '{{> checks}}', checks: '{{> safety}}' }))
+      .toThrow(/Partial cycle: (safety -> checks -> safety|checks -> safety -> checks)/);
+  });
+
+  it('rejects a cycle among partials no prompt includes', () => {
+    expect(() => registryWith({ guidelines: 'Fine.', a: '{{> b}}', b: '{{> a}}' })).toThrow(/Partial cycle: (a -> b -> a|b -> a -> b)/);
+  });
+});
@@ -0,0 +1,262 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+import { parseTemplate, renderTemplate, templatePartials, templateReferences, type TemplateNode, type TemplateReference, type TemplateValue } from './template';
+
+// 📚 PROMPT REGISTRY
+// Prompts live in prompts/*.md as version-controlled files: YAML frontmatter for the metadata,
+// the prompt template below it (see ./template.ts). Agents resolve them by "id@version" ("deployment@v3"),
+// or by id alone for the latest version. Shared blocks live in prompts/partials/<name>.md.
+// Templates are checked against their declared variables when loaded, and variables are validated on render.
+
+const variableSpecSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('string'), description: z.string().optional(), optional: z.boolean().default(false) }),
+  z.object({ type: z.literal('number'), description: z.string().optional(), optional: z.boolean().default(false) }),
+  z.object({ type: z.literal('boolean'), description: z.string().optional(), optional: z.boolean().default(false) }),
+  z.object({ type: z.literal('list'), description: z.string().optional(), optional: z.boolean().default(false) }),
+  z.object({
+    type: z.literal('enum'),
+    values: z.array(z.string()).min(1),
+    description: z.string().optional(),
+    optional: z.boolean().default(false),
+  }),
+]);
+
+export type VariableSpec = z.infer<typeof variableSpecSchema>;
+
+const frontmatterSchema = z.object({
+  id: z.string().regex(/^[a-z][\da-z-]*$/, 'ids are kebab-case'),
+  version: z.string().regex(/^v\d+$/, 'versions look like v1, v2, ...'),
+  owner: z.string(),
+  description: z.string().optional(),
+  // Hints for whoever wires the prompt up; the model itself still comes from MODEL / AGENT_MODELS
+  models: z
+    .object({
+      recommended: z.array(z.string()).default([]),
+      temperature: z.number().min(0).max(2).optional(),
+    })
+    .optional(),
+  variables: z.record(z.string(), variableSpecSchema).default({}),
+});
+
+export type PromptMetadata = z.infer<typeof frontmatterSchema>;
+
+export interface RegisteredPrompt extends PromptMetadata {
+  ref: string;
+  file: string;
+  template: string;
+  // Line of the file the template starts on, after the frontmatter
+  firstLine: number;
+  // Partials the template includes, directly or through other partials
+  partials: string[];
+}
+
+export type PromptVariables = Record<string, TemplateValue>;
+
+export const DEFAULT_PROMPTS_DIR = fileURLToPath(new URL('prompts', import.meta.url));
+
+// Splits "---\n<yaml>\n---\n<body>" into its two halves
+function parsePromptFile(file: string, content: string): RegisteredPrompt {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(content);
+  if (!match) {
+    throw new Error(`Prompt file ${file} has no frontmatter. Expected it to start with a --- block`);
+  }
+
+  const parsed = frontmatterSchema.safeParse(parseYaml(match[1] ?? ''));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'frontmatter'}: ${issue.message}`);
+    throw new Error(`Invalid frontmatter in prompt file ${file}: ${issues.join('; ')}`);
+  }
+
+  const metadata = parsed.data;
+  const body = match[2] ?? '';
+  const template = body.trim();
+  const firstLine = content.slice(0, content.length - body.length + body.indexOf(template)).split('\n').length;
+  return { ...metadata, ref: `${metadata.id}@${metadata.version}`, file, template, firstLine, partials: [] };
+}
+
+// Partials are plain template text, named after their file: partials/safety-guidelines.md → {{> safety-guidelines}}
+function loadPartials(directory: string): Record<string, string> {
+  if (!existsSync(directory)) return {};
+  return Object.fromEntries(readdirSync(directory)
+    .filter(file => file.endsWith('.md'))
+    .map(file => [path.basename(file, '.md'), readFileSync(path.join(directory, file), 'utf8').trim()]));
+}
+
+function variableSchema(spec: VariableSpec): z.ZodType {
+  const schema = {
+    string: () => z.string().min(1),
+    number: () => z.number(),
+    boolean: () => z.boolean(),
+    list: () => z.array(z.string()),
+    enum: () => z.enum((spec as Extract<VariableSpec, { type: 'enum' }>).values as [string, ...string[]]),
+  }[spec.type]();
+
+  return spec.optional ? schema.optional() : schema;
+}
+
+const versionNumber = (version: string) => Number(version.slice(1));
+
+export class PromptRegistry {
+  private readonly prompts = new Map<string, RegisteredPrompt>();
+  private readonly templates = new Map<string, TemplateNode[]>();
+  private readonly partials: Record<string, TemplateNode[]>;
+  private readonly partialTemplates: Record<string, string>;
+
+  constructor(prompts: RegisteredPrompt[], partials: Record<string, string> = {}) {
+    this.partialTemplates = partials;
+    this.partials = Object.fromEntries(
+      Object.entries(partials).map(([name, template]) => [name, parseTemplate(template, `partials/${name}.md`)]),
+    );
+
+    // Every partial, whether a prompt includes it yet or not
+    for (const [name, nodes] of Object.entries(this.partials)) this.includedPartials(nodes, `partials/${name}.md`, [], [name]);
+
+    for (const prompt of prompts) {
+      const existing = this.prompts.get(prompt.ref);
+      if (existing) {
+        throw new Error(`Prompt ${prompt.ref} is defined twice: ${existing.file} and ${prompt.file}`);
+      }
+
+      const nodes = parseTemplate(prompt.template, prompt.file, prompt.firstLine);
+      const included = this.includedPartials(nodes, prompt.file);
+      this.checkReferences(prompt, prompt.file, nodes);
+      for (const name of included) this.checkReferences(prompt, `partials/${name}.md`, this.partials[name] ?? []);
+
+      this.prompts.set(prompt.ref, { ...prompt, partials: included });
+      this.templates.set(prompt.ref, nodes);
+    }
+  }
+
+  static fromDirectory(directory: string = DEFAULT_PROMPTS_DIR): PromptRegistry {
+    const files = readdirSync(directory).filter(file => file.endsWith('.md'));
+    return new PromptRegistry(
+      files.map(file => parsePromptFile(file, readFileSync(path.join(directory, file), 'utf8'))),
+      loadPartials(path.join(directory, 'partials')),
+    );
+  }
+
+  // Partials reachable from a template, in the order they are first included. stack holds the partials being
+  // expanded on the way here: including one of them again would never finish rendering.
+  private includedPartials(nodes: TemplateNode[], source: string, seen: string[] = [], stack: string[] = []): string[] {
+    for (const name of templatePartials(nodes)) {
+      if (stack.includes(name)) {
+        throw new Error(`Partial cycle: ${[...stack.slice(stack.indexOf(name)), name].join(' -> ')}`);
+      }
+      if (seen.includes(name)) continue;
+
+      const partial = this.partials[name];
+      if (!partial) {
+        throw new Error(`${source} includes unknown partial "${name}". Expected one of: ${Object.keys(this.partials).join(', ') || '(none)'}`);
+      }
+      seen.push(name);
+      this.includedPartials(partial, `partials/${name}.md`, seen, [...stack, name]);
+    }
+    return seen;
+  }
+
+  // Every variable a template reads must be declared, with a type that fits how it is used
+  private checkReferences(prompt: RegisteredPrompt, source: string, nodes: TemplateNode[]) {
+    for (const reference of templateReferences(nodes)) {
+      const spec = prompt.variables[reference.name];
+      const where = `${source}:${reference.line}`;
+
+      if (!spec) {
+        throw new Error(`${where}: ${prompt.ref} uses undeclared variable "${reference.name}". Declare it in the frontmatter of ${prompt.file}`);
+      }
+      if (reference.usage === 'list' && spec.type !== 'list') {
+        throw new Error(`${where}: {{#each ${reference.name}}} needs a list variable, but "${reference.name}" is a ${spec.type}`);
+      }
+      if (reference.comparedTo !== undefined && spec.type === 'enum' && !spec.values.includes(reference.comparedTo)) {
+        throw new Error(`${where}: "${reference.name}" is never '${reference.comparedTo}'. Expected one of: ${spec.values.join(', ')}`);
+      }
+    }
+  }
+
+  // Every variable reference in a prompt's template and the partials it includes
+  references(ref: string): TemplateReference[] {
+    const prompt = this.resolve(ref);
+    return [
+      ...templateReferences(this.templates.get(prompt.ref) ?? []),
+      ...prompt.partials.flatMap(name => templateReferences(this.partials[name] ?? [])),
+    ];
+  }
+
+  // A partial's template text, as written in partials/<name>.md
+  partialTemplate(name: string): string {
+    const template = this.partialTemplates[name];
+    if (template === undefined) {
+      throw new Error(`Unknown partial "${name}". Expected one of: ${Object.keys(this.partialTemplates).join(', ') || '(none)'}`);
+    }
+    return template;
+  }
+
+  // Every prompt, by id then version
+  list(): RegisteredPrompt[] {
+    const prompts = [...this.prompts.values()];
+    prompts.sort((left, right) => left.id.localeCompare(right.id) || versionNumber(left.version) - versionNumber(right.version));
+    return prompts;
+  }
+
+  // Versions of a prompt, oldest first
+  versions(id: string): string[] {
+    const versions = [...this.prompts.values()].filter(prompt => prompt.id === id).map(prompt => prompt.version);
+    versions.sort((left, right) => versionNumber(left) - versionNumber(right));
+    return versions;
+  }
+
+  // "deployment@v3" resolves that version; "deployment" resolves the latest
+  resolve(ref: string): RegisteredPrompt {
+    const [id = '', requestedVersion] = ref.split('@');
+    const versions = this.versions(id);
+
+    if (versions.length === 0) {
+      const ids = [...new Set([...this.prompts.values()].map(prompt => prompt.id))];
+      throw new Error(`Unknown prompt "${id}". Expected one of: ${ids.join(', ')}`);
+    }
+
+    const version = requestedVersion ?? versions.at(-1);
+    const prompt = this.prompts.get(`${id}@${version}`);
+    if (!prompt) {
+      throw new Error(`Unknown version "${version}" of prompt "${id}". Available: ${versions.join(', ')}`);
+    }
+    return prompt;
+  }
+
+  // Validates the variables against the prompt's declared schema (missing, mistyped and undeclared ones all fail),
+  // then renders the template
+  render(ref: string, variables: PromptVariables = {}): string {
+    const prompt = this.resolve(ref);
+    const schema = z
+      .object(Object.fromEntries(Object.entries(prompt.variables).map(([name, spec]) => [name, variableSchema(spec)])))
+      .strict();
+
+    const parsed = schema.safeParse(variables);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+      throw new Error(`Invalid variables for prompt ${prompt.ref}: ${issues.join('; ')}`);
+    }
+
+    return renderTemplate(this.templates.get(prompt.ref) ?? [], variables, this.partials);
+  }
+
+  // The rendered prompt with what went into it, exactly as the agent will receive it
+  preview(ref: string, variables: PromptVariables = {}): string {
+    const prompt = this.resolve(ref);
+    const instructions = this.render(prompt.ref, variables);
+    const values = Object.entries(variables).map(([name, value]) => `${name}=${Array.isArray(value) ? `[${value.join(', ')}]` : String(value)}`);
+
+    return [
+      `   Owner: ${prompt.owner} | Recommended models: ${prompt.models?.recommended.join(', ') || 'none'}`,
+      ...(prompt.partials.length > 0 ? [`   Partials: ${prompt.partials.join(', ')}`] : []),
+      ...(values.length > 0 ? [`   Variables: ${values.join(', ')}`] : []),
+      '─'.repeat(50),
+      instructions,
+      '─'.repeat(50),
+    ].join('\n');
+  }
+}
@@ -0,0 +1,162 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { z } from 'zod';
+
+// 📸 PROMPT SNAPSHOTS
+// Golden outputs per prompt version and test case, stored as snapshots/<id>.<version>.json next to the prompts.
+// A later run compares each answer with its golden output twice: as text (a line diff) and by meaning
+// (risk level, sections, numbered steps and word overlap), so "reworded" can be told apart from "changed".
+// Snapshots recorded with the mock model, or replayed with LLM_CACHE=replay, are deterministic and run in CI.
+
+export const DEFAULT_SNAPSHOT_DIR = fileURLToPath(new URL('snapshots', import.meta.url));
+
+const snapshotFileSchema = z.object({
+  prompt: z.string(),
+  model: z.string(),
+  // Hash of the rendered instructions the outputs were recorded with
+  promptHash: z.string(),
+  outputs: z.record(z.string(), z.string()),
+});
+
+export type SnapshotFile = z.infer<typeof snapshotFileSchema>;
+
+export function promptHash(instructions: string): string {
+  return createHash('sha256').update(instructions).digest('hex').slice(0, 12);
+}
+
+export class SnapshotStore {
+  constructor(private readonly directory: string = DEFAULT_SNAPSHOT_DIR) {}
+
+  private fileFor(promptRef: string): string {
+    return path.join(this.directory, `${promptRef.replace('@', '.')}.json`);
+  }
+
+  load(promptRef: string): SnapshotFile | undefined {
+    const file = this.fileFor(promptRef);
+    if (!existsSync(file)) return undefined;
+
+    const parsed = snapshotFileSchema.safeParse(JSON.parse(readFileSync(file, 'utf8')));
+    if (!parsed.success) {
+      throw new Error(`Invalid snapshot file ${file}: expected { prompt, model, promptHash, outputs }`);
+    }
+    return parsed.data;
+  }
+
+  save(snapshot: SnapshotFile) {
+    mkdirSync(this.directory, { recursive: true });
+    writeFileSync(this.fileFor(snapshot.prompt), `${JSON.stringify(snapshot, undefined, 2)}\n`);
+  }
+}
+
+// 🧠 SEMANTIC COMPARISON
+
+export interface AnswerFeatures {
+  riskLevel?: string;
+  // "Label:" lines that start a section, e.g. Prerequisites, Rollback
+  sections: string[];
+  steps: number;
+}
+
+export function answerFeatures(text: string): AnswerFeatures {
+  const riskLevel = /risk(?: assessment| level)?\W{0,4}(low|medium|high)\b/i.exec(text)?.[1];
+  const sections = [...text.matchAll(/^\W{0,4}([A-Z][\w ]{2,30}?)\W{0,2}:/gm)].map(match => match[1]!.trim().toLowerCase());
+  const steps = text.split('\n').filter(line => /^\s*\d+[).]\s/.test(line)).length;
+
+  return {
+    riskLevel: riskLevel && riskLevel[0]!.toUpperCase() + riskLevel.slice(1).toLowerCase(),
+    sections: [...new Set(sections)],
+    steps,
+  };
+}
+
+function termCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(term => term.length > 2)) {
+    counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Cosine similarity of the two answers' word counts: 1 for the same words, 0 for none in common
+export function similarity(left: string, right: string): number {
+  const leftCounts = termCounts(left);
+  const rightCounts = termCounts(right);
+  let dot = 0;
+  let leftNorm = 0;
+  let rightNorm = 0;
+
+  for (const [term, count] of leftCounts) {
+    dot += count * (rightCounts.get(term) ?? 0);
+    leftNorm += count * count;
+  }
+  for (const count of rightCounts.values()) rightNorm += count * count;
+
+  return leftNorm === 0 || rightNorm === 0 ? 0 : dot / Math.sqrt(leftNorm * rightNorm);
+}
+
+// Below this, an answer with the same structure still counts as saying something else
+const MIN_REWORDED_SIMILARITY = 0.6;
+
+export type SnapshotStatus = 'unchanged' | 'reworded' | 'changed' | 'new';
+
+export interface SnapshotComparison {
+  status: SnapshotStatus;
+  // Semantic differences, e.g. "risk level: High → Medium"
+  changes: string[];
+  similarity: number;
+}
+
+export function compareAnswers(golden: string | undefined, actual: string): SnapshotComparison {
+  if (golden === undefined) return { status: 'new', changes: [], similarity: 0 };
+  if (golden === actual) return { status: 'unchanged', changes: [], similarity: 1 };
+
+  const before = answerFeatures(golden);
+  const after = answerFeatures(actual);
+  const changes: string[] = [];
+
+  if (before.riskLevel !== after.riskLevel) changes.push(`risk level: ${before.riskLevel ?? 'none'} → ${after.riskLevel ?? 'none'}`);
+  const removed = before.sections.filter(section => !after.sections.includes(section));
+  const added = after.sections.filter(section => !before.sections.includes(section));
+  if (removed.length > 0) changes.push(`sections removed: ${removed.join(', ')}`);
+  if (added.length > 0) changes.push(`sections added: ${added.join(', ')}`);
+  if (before.steps !== after.steps) changes.push(`numbered steps: ${before.steps} → ${after.steps}`);
+
+  const score = similarity(golden, actual);
+  if (score < MIN_REWORDED_SIMILARITY) changes.push(`word overlap ${score.toFixed(2)}`);
+
+  return { status: changes.length > 0 ? 'changed' : 'reworded', changes, similarity: score };
+}
+
+// 📝 TEXT DIFF
+
+// Line diff from the longest common subsequence: "  " kept, "- " golden only, "+ " new only
+export function diffLines(golden: string, actual: string): string[] {
+  const before = golden.split('\n');
+  const after = actual.split('\n');
+  // common[i][j] = length of the LCS of before[i..] and after[j..]
+  const common = Array.from({ length: before.length + 1 }, () => Array.from<number>({ length: after.length + 1 }).fill(0));
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i]![j] = before[i] === after[j] ? common[i + 1]![j + 1]! + 1 : Math.max(common[i + 1]![j]!, common[i]![j + 1]!);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push(`  ${before[i++]}`);
+      j++;
+    } else if (i < before.length && (j === after.length || common[i + 1]![j]! >= common[i]![j + 1]!)) {
+      lines.push(`- ${before[i++]}`);
+    } else {
+      lines.push(`+ ${after[j++]}`);
+    }
+  }
+  return lines;
+}
@@ -0,0 +1,213 @@
+// 🧩 PROMPT TEMPLATES
+// A deliberately small template language, so a prompt file still reads as the text the model gets:
+//
+//   {{name}}                                   a variable
+//   {{#if name}} ... {{else}} ... {{/if}}      a conditional: a truthy variable, or name == 'value' / name != 'value'
+//   {{#each list as item}} ... {{item}} {{/each}}   a loop over a list of strings
+//   {{> partial-name}}                         a shared block from prompts/partials/
+//
+// A block tag alone on its line takes the line with it, so conditionals do not leave blank lines behind.
+
+export type TemplateValue = string | number | boolean | string[];
+
+export type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; name: string; line: number }
+  | { kind: 'if'; condition: Condition; whenTrue: TemplateNode[]; whenFalse: TemplateNode[]; line: number }
+  | { kind: 'each'; list: string; item: string; body: TemplateNode[]; line: number }
+  | { kind: 'partial'; name: string; line: number };
+
+export interface Condition {
+  name: string;
+  // Set for comparisons: {{#if environment == 'production'}}
+  compare?: { operator: '==' | '!='; value: string };
+}
+
+const TAG = /{{\s*(.*?)\s*}}/g;
+const BLOCK_TAG = /^(#if|#each|else|\/if|\/each)\b/;
+
+const IF_TAG = /^#if\s+(\w+)(?:\s*(==|!=)\s*'([^']*)')?$/;
+const EACH_TAG = /^#each\s+(\w+)\s+as\s+(\w+)$/;
+const PARTIAL_TAG = /^>\s*([\w-]+)$/;
+const VARIABLE_TAG = /^\w+$/;
+
+type OpenBlock =
+  | { tag: 'root'; nodes: TemplateNode[] }
+  | { tag: 'if'; nodes: TemplateNode[]; node: Extract<TemplateNode, { kind: 'if' }> }
+  | { tag: 'each'; nodes: TemplateNode[]; node: Extract<TemplateNode, { kind: 'each' }> };
+
+// `source` names the template in error messages, e.g. "deployment.v3.md"; `firstLine` is the line
+// of that file the template starts on, so errors and references point at the file's own lines
+export function parseTemplate(text: string, source: string, firstLine = 1): TemplateNode[] {
+  const stack: OpenBlock[] = [{ tag: 'root', nodes: [] }];
+  let position = 0;
+
+  const lineAt = (index: number) => firstLine - 1 + text.slice(0, index).split('\n').length;
+  function fail(index: number, message: string): never {
+    throw new Error(`${source}:${lineAt(index)}: ${message}`);
+  }
+
+  for (const match of text.matchAll(TAG)) {
+    const index = match.index;
+    const tag = match[1] ?? '';
+    const current = stack.at(-1)!;
+    const line = lineAt(index);
+
+    // A block tag alone on its line takes the whole line, newline included
+    let start = index;
+    let end = index + match[0].length;
+    if (BLOCK_TAG.test(tag)) {
+      const lineStart = text.lastIndexOf('\n', index - 1) + 1;
+      const newline = text.indexOf('\n', end);
+      const lineEnd = newline === -1 ? text.length : newline + 1;
+      if (/^[\t ]*$/.test(text.slice(lineStart, index)) && /^[\t ]*\r?\n?$/.test(text.slice(end, lineEnd))) {
+        start = lineStart;
+        end = lineEnd;
+      }
+    }
+
+    if (start > position) current.nodes.push({ kind: 'text', text: text.slice(position, start) });
+    position = end;
+
+    const ifTag = IF_TAG.exec(tag);
+    const eachTag = EACH_TAG.exec(tag);
+    const partialTag = PARTIAL_TAG.exec(tag);
+
+    if (ifTag) {
+      const [, name = '', operator, value = ''] = ifTag;
+      const node: Extract<TemplateNode, { kind: 'if' }> = {
+        kind: 'if',
+        condition: operator ? { name, compare: { operator: operator as '==' | '!=', value } } : { name },
+        whenTrue: [],
+        whenFalse: [],
+        line,
+      };
+      current.nodes.push(node);
+      stack.push({ tag: 'if', nodes: node.whenTrue, node });
+    } else if (eachTag) {
+      const [, list = '', item = ''] = eachTag;
+      const node: Extract<TemplateNode, { kind: 'each' }> = { kind: 'each', list, item, body: [], line };
+      current.nodes.push(node);
+      stack.push({ tag: 'each', nodes: node.body, node });
+    } else if (tag === 'else') {
+      if (current.tag !== 'if' || current.nodes === current.node.whenFalse) fail(index, '{{else}} outside an {{#if}} block');
+      current.nodes = current.node.whenFalse;
+    } else if (tag === '/if' || tag === '/each') {
+      if (current.tag !== tag.slice(1)) fail(index, `Unexpected {{${tag}}}. Expected {{/${current.tag === 'root' ? 'if' : current.tag}}}`);
+      stack.pop();
+    } else if (partialTag) {
+      current.nodes.push({ kind: 'partial', name: partialTag[1] ?? '', line });
+    } else if (VARIABLE_TAG.test(tag)) {
+      current.nodes.push({ kind: 'variable', name: tag, line });
+    } else {
+      fail(index, `Unrecognised tag {{${tag}}}`);
+    }
+  }
+
+  if (stack.length > 1) {
+    const open = stack.at(-1) as Exclude<OpenBlock, { tag: 'root' }>;
+    throw new Error(`${source}:${open.node.line}: {{#${open.tag}}} is never closed`);
+  }
+
+  const root = stack[0]!;
+  if (position < text.length) root.nodes.push({ kind: 'text', text: text.slice(position) });
+  return root.nodes;
+}
+
+export interface TemplateReference {
+  name: string;
+  line: number;
+  // How the template uses the variable, so the registry can check it against the declared type
+  usage: 'value' | 'condition' | 'list';
+  comparedTo?: string;
+}
+
+// Every variable a template reads, not counting loop items or the contents of partials
+export function templateReferences(nodes: TemplateNode[], loopItems = new Set<string>()): TemplateReference[] {
+  return nodes.flatMap((node): TemplateReference[] => {
+    switch (node.kind) {
+      case 'text':
+      case 'partial': {
+        return [];
+      }
+      case 'variable': {
+        return loopItems.has(node.name) ? [] : [{ name: node.name, line: node.line, usage: 'value' }];
+      }
+      case 'if': {
+        const { name, compare } = node.condition;
+        return [
+          ...(loopItems.has(name) ? [] : [{ name, line: node.line, usage: 'condition' as const, comparedTo: compare?.value }]),
+          ...templateReferences(node.whenTrue, loopItems),
+          ...templateReferences(node.whenFalse, loopItems),
+        ];
+      }
+      case 'each': {
+        return [
+          { name: node.list, line: node.line, usage: 'list' },
+          ...templateReferences(node.body, new Set([...loopItems, node.item])),
+        ];
+      }
+    }
+  });
+}
+
+export function templatePartials(nodes: TemplateNode[]): string[] {
+  return nodes.flatMap(node => {
+    switch (node.kind) {
+      case 'partial': {
+        return [node.name];
+      }
+      case 'if': {
+        return [...templatePartials(node.whenTrue), ...templatePartials(node.whenFalse)];
+      }
+      case 'each': {
+        return templatePartials(node.body);
+      }
+      default: {
+        return [];
+      }
+    }
+  });
+}
+
+function isTruthy(value: TemplateValue | undefined): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+// Renders parsed nodes; the variables are expected to have been validated already
+export function renderTemplate(
+  nodes: TemplateNode[],
+  variables: Record<string, TemplateValue | undefined>,
+  partials: Record<string, TemplateNode[]>,
+): string {
+  return nodes
+    .map(node => {
+      switch (node.kind) {
+        case 'text': {
+          return node.text;
+        }
+        case 'variable': {
+          const value = variables[node.name];
+          return Array.isArray(value) ? value.join(', ') : String(value ?? '');
+        }
+        case 'if': {
+          const { name, compare } = node.condition;
+          const value = variables[name];
+          const passed = compare
+            ? (String(value) === compare.value) === (compare.operator === '==')
+            : isTruthy(value);
+          return renderTemplate(passed ? node.whenTrue : node.whenFalse, variables, partials);
+        }
+        case 'each': {
+          const items = variables[node.list];
+          return (Array.isArray(items) ? items : [])
+            .map(item => renderTemplate(node.body, { ...variables, [node.item]: item }, partials))
+            .join('');
+        }
+        case 'partial': {
+          return renderTemplate(partials[node.name] ?? [], variables, partials);
+        }
+      }
+    })
+    .join('');
+}
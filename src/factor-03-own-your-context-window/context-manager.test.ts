@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+
+import { ContextManager } from './context-manager';
+import { HashingEmbeddingModel } from './embeddings';
+import { rateByHeuristics } from './importance';
+import { jsonSerializer } from './serializers';
+import { RollingSummarizer } from './summarizer';
+
+function managerWith(turns: [string, string][], options?: ConstructorParameters<typeof ContextManager>[0]) {
+  const manager = new ContextManager(options);
+  for (const [user, assistant] of turns) manager.addTurn(user, assistant);
+  return manager;
+}
+
+// The summarizer's answer comes from the mock fixture for this conversation
+const ALEX_TURNS: [string, string][] = [
+  ["My name is Alex and I'm 25 years old", 'Nice to meet you, Alex!'],
+  ['I like pizza and coding', 'Great combination.'],
+  ['I went to the movies yesterday', 'What did you see?'],
+];
+
+describe('ContextManager', () => {
+  it('keeps only the newest turns in the recent window', () => {
+    const manager = managerWith([['one', 'a'], ['two', 'b'], ['three', 'c']]);
+
+    const context = manager.getRecentContext(2);
+
+    expect(context).not.toContain('one');
+    expect(context).toContain('User: two');
+    expect(context).toContain('User: three');
+  });
+
+  it('reports an empty conversation', () => {
+    expect(new ContextManager().getRecentContext()).toBe('No previous conversation.');
+    expect(new ContextManager().getImportantContext()).toBe('No important previous information.');
+  });
+
+  it('rates turns by heuristics unless an importance is given, and keeps manual labels', () => {
+    const manager = managerWith([['My name is Ada and I am allergic to peanuts', 'Noted.'], ['ok', 'Sure.']]);
+    manager.addTurn('hello', 'hi', 'high');
+    manager.setImportance(2, 'low');
+
+    const turns = manager.getTurns();
+
+    expect(turns.map(turn => turn.importanceSource)).toEqual(['heuristic', 'manual', 'manual']);
+    expect(turns[2]!.importance).toBe('high');
+    expect(manager.getImportantContext()).toContain('User: hello');
+    expect(() => manager.setImportance(9, 'high')).toThrow('Unknown turn 9. Expected 1-3');
+  });
+
+  it('does not rate assistant boilerplate as a commitment', () => {
+    expect(rateByHeuristics('Can you look at my order?', "I'll check that for you. We will look into it.").importance).toBe('low');
+    expect(rateByHeuristics('the weather is nice, i will go out', 'Enjoy!').importance).toBe('low');
+  });
+
+  it('rates the user\'s plans and settled outcomes as commitments', () => {
+    expect(rateByHeuristics("We'll ship the fix on Friday", 'Sounds good.')).toMatchObject({ importance: 'high', reason: 'commitment' });
+    expect(rateByHeuristics('What did we settle on?', 'We agreed to move the launch.')).toMatchObject({ importance: 'high', reason: 'commitment' });
+  });
+
+  it('packs high importance turns first and accounts for the whole context limit', () => {
+    const manager = new ContextManager();
+    manager.addTurn('old detail '.repeat(40), 'ok', 'low');
+    manager.addTurn('my account id is 42', 'noted', 'high');
+
+    const budget = { contextLimit: 120, reservedOutput: 20 };
+    const context = manager.getBudgetedContext(budget, 'Answer briefly.', 'What is my account id?');
+
+    expect(context.included.map(turn => turn.id)).toEqual([2]);
+    expect(context.omitted.map(turn => turn.id)).toEqual([1]);
+    expect(context.sections.reduce((total, section) => total + section.tokens, 0)).toBe(budget.contextLimit);
+  });
+
+  it('rejects a context limit too small for the instructions and question', () => {
+    expect(() => new ContextManager().getBudgetedContext({ contextLimit: 10, reservedOutput: 8 }, 'Answer briefly.', 'Why?'))
+      .toThrow('Context limit of 10 tokens is too small');
+  });
+
+  it('retrieves the turns most similar to the question', async () => {
+    const manager = managerWith(
+      [['My dog is called Rex', 'Nice name'], ['The weather is sunny', 'Enjoy it'], ['I like pizza', 'Yum']],
+      { embeddingModel: new HashingEmbeddingModel() },
+    );
+
+    const [best] = await manager.retrieveTurns('What is my dog called?', 1);
+
+    expect(best!.turn.id).toBe(1);
+    expect(await manager.getRelevantContext('What is my dog called?', { topK: 1, recentTurns: 1 })).toBe(
+      '[RELEVANT] User: My dog is called Rex\nAssistant: Nice name\n\nUser: I like pizza\nAssistant: Yum',
+    );
+  });
+
+  it('summarizes the turns outside the recent window', async () => {
+    const summarizer = new RollingSummarizer();
+    const manager = managerWith(ALEX_TURNS, { summarizer });
+
+    const context = await manager.getSummaryContext(1);
+
+    expect(summarizer.latest.throughTurn).toBe(2);
+    expect(context).toContain('[SUMMARY of turns 1-2]');
+    expect(context).toContain('User: I went to the movies yesterday');
+    expect(context).not.toContain('User: I like pizza');
+  });
+
+  it('summarizes every turn with a recent window of 0', async () => {
+    const summarizer = new RollingSummarizer();
+    const manager = managerWith(ALEX_TURNS, { summarizer });
+
+    const context = await manager.getSummaryContext(0);
+
+    expect(summarizer.latest.throughTurn).toBe(3);
+    expect(context).toContain('[SUMMARY of turns 1-3]');
+    expect(context).not.toContain('User:');
+  });
+
+  it('rebuilds the summary when the recent window grows', async () => {
+    const summarizer = new RollingSummarizer();
+    const manager = managerWith(ALEX_TURNS, { summarizer });
+
+    await manager.getSummaryContext(1);
+    const context = await manager.getSummaryContext(2);
+
+    expect(summarizer.latest.throughTurn).toBe(1);
+    expect(summarizer.updates).toBe(2);
+    expect(context).toContain('[SUMMARY of turns 1-1]');
+    expect(context.match(/User: I like pizza/g)).toHaveLength(1);
+  });
+
+  it('does not share a summarizer between conversations', () => {
+    const summarizer = new RollingSummarizer();
+    new ContextManager({ summarizer });
+
+    expect(() => new ContextManager({ summarizer })).toThrow('already summarizes another conversation');
+  });
+
+  it('rejects a negative recent window', async () => {
+    const manager = managerWith([['one', 'a']], { summarizer: new RollingSummarizer(), embeddingModel: new HashingEmbeddingModel() });
+
+    await expect(manager.getSummaryContext(-1)).rejects.toThrow('Invalid recentTurns -1');
+    await expect(manager.getRelevantContext('one', { recentTurns: -1 })).rejects.toThrow('Invalid recentTurns -1');
+  });
+
+  it('writes every strategy with the configured serializer', () => {
+    const manager = managerWith([['hello', 'hi']], { serializer: jsonSerializer });
+
+    expect(JSON.parse(manager.getRecentContext())).toBeTruthy();
+  });
+});
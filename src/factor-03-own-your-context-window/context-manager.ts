@@ -0,0 +1,288 @@
+import { embed, embedMany } from 'ai';
+
+import type { EmbeddingModelV2 } from '@ai-sdk/provider';
+
+import { cosineSimilarity } from './embeddings';
+import { rateByHeuristics, type ImportanceClassifier } from './importance';
+import { plainSerializer, type ContextEntry, type ContextSerializer, type TurnTag } from './serializers';
+import type { RollingSummarizer } from './summarizer';
+import { countTokens } from './tokens';
+
+// 🧠 CONTEXT WINDOW MANAGEMENT
+// Explicit control over what information the LLM sees
+
+export type Importance = 'high' | 'medium' | 'low';
+
+// Who set a turn's importance: the caller by hand, the keyword heuristics, or the classifier agent
+export type ImportanceSource = 'manual' | 'heuristic' | 'classifier';
+
+export interface ConversationTurn {
+  id: number;
+  user: string;
+  assistant: string;
+  timestamp: Date;
+  importance: Importance;
+  importanceSource: ImportanceSource;
+  importanceReason: string;
+}
+
+export interface TokenBudget {
+  // The model's context window, in tokens
+  contextLimit: number;
+  // Kept free for the model's answer
+  reservedOutput: number;
+}
+
+export interface ContextSection {
+  name: string;
+  tokens: number;
+}
+
+export interface BudgetedContext {
+  // The user message to send: the turns that fit, oldest first, then the question
+  prompt: string;
+  included: ConversationTurn[];
+  // Turns left out for lack of room
+  omitted: ConversationTurn[];
+  // Where the context limit went; the sections add up to the limit
+  sections: ContextSection[];
+}
+
+const IMPORTANCE_RANK: Record<Importance, number> = { high: 2, medium: 1, low: 0 };
+
+// The text each turn is embedded as, whatever format the context is serialized in
+const formatTurn = (turn: ConversationTurn) => `User: ${turn.user}\nAssistant: ${turn.assistant}`;
+
+const turnEntries = (turns: ConversationTurn[], tag?: TurnTag): ContextEntry[] =>
+  turns.map(turn => ({ kind: 'turn', turn, ...(tag && { tag }) }));
+
+function checkRecentTurns(recentTurns: number) {
+  if (!Number.isInteger(recentTurns) || recentTurns < 0) {
+    throw new Error(`Invalid recentTurns ${recentTurns}. Expected a whole number of turns, 0 or more`);
+  }
+}
+
+export function formatPrompt(context: string, question: string): string {
+  return `CONVERSATION CONTEXT:\n${context}\n\nCURRENT QUESTION: ${question}`;
+}
+
+export interface ContextManagerOptions {
+  // Folds turns that leave the recent window into a summary (see getSummaryContext)
+  summarizer?: RollingSummarizer;
+  // Embeds turns and questions for getRelevantContext (see embeddings.ts)
+  embeddingModel?: EmbeddingModelV2<string>;
+  // Re-rates turns the heuristics rated (see classifyTurns)
+  importanceClassifier?: ImportanceClassifier;
+  // How every strategy writes its context down (see serializers.ts); plain by default
+  serializer?: ContextSerializer;
+}
+
+export interface RetrievedTurn {
+  turn: ConversationTurn;
+  // Cosine similarity to the question, from -1 to 1
+  similarity: number;
+}
+
+export interface RelevantContextOptions {
+  // Most similar turns to include
+  topK?: number;
+  // Turns at or below this similarity are not relevant, however few pass
+  minSimilarity?: number;
+  // Newest turns to include verbatim whatever their similarity; they are not retrieved a second time
+  recentTurns?: number;
+}
+
+export class ContextManager {
+  private conversation: ConversationTurn[] = [];
+  private turnCounter = 0;
+  private readonly summarizer?: RollingSummarizer;
+  private readonly embeddingModel?: EmbeddingModelV2<string>;
+  private readonly importanceClassifier?: ImportanceClassifier;
+  private serializer: ContextSerializer;
+  // Turn id → embedding, so each turn is embedded once however often it is searched
+  private readonly vectors = new Map<number, number[]>();
+
+  constructor({ summarizer, embeddingModel, importanceClassifier, serializer = plainSerializer }: ContextManagerOptions = {}) {
+    this.summarizer = summarizer;
+    summarizer?.bind(this);
+    this.embeddingModel = embeddingModel;
+    this.importanceClassifier = importanceClassifier;
+    this.serializer = serializer;
+  }
+
+  // Without an importance, the turn is rated by keyword heuristics (see importance.ts)
+  addTurn(user: string, assistant: string, importance?: Importance) {
+    const rating = importance ? { importance, source: 'manual' as const, reason: 'set by hand' } : rateByHeuristics(user, assistant);
+    this.turnCounter++;
+    this.conversation.push({
+      id: this.turnCounter,
+      user,
+      assistant,
+      timestamp: new Date(),
+      importance: rating.importance,
+      importanceSource: rating.source,
+      importanceReason: rating.reason
+    });
+  }
+
+  // Manual override: a label set by hand is kept by classifyTurns
+  setImportance(turnId: number, importance: Importance) {
+    const turn = this.conversation.find(candidate => candidate.id === turnId);
+    if (!turn) throw new Error(`Unknown turn ${turnId}. Expected 1-${this.turnCounter}`);
+    Object.assign(turn, { importance, importanceSource: 'manual', importanceReason: 'set by hand' });
+  }
+
+  // Sends the turns only the heuristics have rated to the classifier agent, in one call.
+  // Turns rated by hand or already by the classifier are not sent again.
+  async classifyTurns(): Promise<void> {
+    if (!this.importanceClassifier) {
+      throw new Error('classifyTurns needs a classifier: new ContextManager({ importanceClassifier: new ImportanceClassifier() })');
+    }
+
+    const unrated = this.conversation.filter(turn => turn.importanceSource === 'heuristic');
+    const ratings = await this.importanceClassifier.classify(unrated);
+    for (const turn of unrated) {
+      const rating = ratings.get(turn.id);
+      if (rating) Object.assign(turn, { importance: rating.importance, importanceSource: rating.source, importanceReason: rating.reason });
+    }
+  }
+
+  // The same turns in another format; the cached summary and embeddings are kept
+  setSerializer(serializer: ContextSerializer) {
+    this.serializer = serializer;
+  }
+
+  getTurns(): ConversationTurn[] {
+    return [...this.conversation];
+  }
+
+  // 🎯 EXPLICIT CONTEXT STRATEGIES
+
+  // Strategy 1: Recent messages only (sliding window)
+  getRecentContext(maxTurns: number = 3): string {
+    const recent = this.conversation.slice(-maxTurns);
+    if (recent.length === 0) return "No previous conversation.";
+
+    return this.serializer.serialize(turnEntries(recent));
+  }
+
+  // Strategy 2: Important messages only (filtered context)
+  getImportantContext(): string {
+    const important = this.conversation.filter(turn => turn.importance === 'high');
+    if (important.length === 0) return "No important previous information.";
+
+    return this.serializer.serialize(turnEntries(important, 'important'));
+  }
+
+  // Strategy 3: Summary + recent (compressed context)
+  // Turns older than the recent window reach the model only through the rolling summary; with a window of 0,
+  // every turn does
+  async getSummaryContext(recentTurns = 2): Promise<string> {
+    if (!this.summarizer) {
+      throw new Error('getSummaryContext needs a summarizer: new ContextManager({ summarizer: new RollingSummarizer() })');
+    }
+    checkRecentTurns(recentTurns);
+
+    // slice(-0) is the whole conversation, so an empty window is handled apart
+    const recent = recentTurns > 0 ? this.conversation.slice(-recentTurns) : [];
+    const older = this.conversation.slice(0, this.conversation.length - recent.length);
+    const entries: ContextEntry[] = [];
+
+    if (older.length > 0) entries.push({ kind: 'summary', summary: await this.summarizer.summarize(older) });
+    entries.push(...turnEntries(recent));
+
+    return entries.length > 0 ? this.serializer.serialize(entries) : "No context available.";
+  }
+
+  // Strategy 4: Token budget (packed context)
+  // Fills the room the instructions, the question and the reserved output leave with the most valuable
+  // turns: high importance before medium before low, newer before older within each level.
+  // A turn too large for the room left is skipped, so smaller turns after it can still fit.
+  getBudgetedContext(budget: TokenBudget, instructions: string, question: string): BudgetedContext {
+    const instructionTokens = countTokens(instructions);
+    const available = budget.contextLimit - budget.reservedOutput - instructionTokens;
+    const emptyPromptTokens = countTokens(formatPrompt('', question));
+
+    if (available < emptyPromptTokens) {
+      throw new Error(
+        `Context limit of ${budget.contextLimit} tokens is too small: the instructions (${instructionTokens}), ` +
+        `the question (${emptyPromptTokens}) and the reserved output (${budget.reservedOutput}) do not fit`,
+      );
+    }
+
+    const ranked = [...this.conversation];
+    ranked.sort((left, right) => IMPORTANCE_RANK[right.importance] - IMPORTANCE_RANK[left.importance] || right.id - left.id);
+
+    // Each turn is priced on its own, with the blank line that separates it from the next
+    const included: ConversationTurn[] = [];
+    let remaining = available - emptyPromptTokens;
+    for (const turn of ranked) {
+      const cost = countTokens(`${this.serializer.serialize(turnEntries([turn]))}\n\n`);
+      if (cost <= remaining) {
+        included.push(turn);
+        remaining -= cost;
+      }
+    }
+
+    // Tokens merge differently across the joins; drop the least valuable turns until the real count fits
+    const promptFor = (turns: ConversationTurn[]) => formatPrompt(
+      turns.length > 0 ? this.serializer.serialize(turnEntries(this.conversation.filter(turn => turns.includes(turn)))) : '',
+      question,
+    );
+    while (included.length > 0 && countTokens(promptFor(included)) > available) included.pop();
+
+    const prompt = promptFor(included);
+    const promptTokens = countTokens(prompt);
+    const historyTokens = promptTokens - emptyPromptTokens;
+
+    return {
+      prompt,
+      included: this.conversation.filter(turn => included.includes(turn)),
+      omitted: this.conversation.filter(turn => !included.includes(turn)),
+      sections: [
+        { name: 'instructions', tokens: instructionTokens },
+        { name: 'history', tokens: historyTokens },
+        { name: 'question', tokens: emptyPromptTokens },
+        { name: 'reserved output', tokens: budget.reservedOutput },
+        { name: 'unused', tokens: available - promptTokens },
+      ],
+    };
+  }
+
+  // Strategy 5: Relevant turns (semantic retrieval)
+  // Turns ranked by the similarity of their embedding to the question's, most similar first
+  async retrieveTurns(question: string, topK: number, exclude: ConversationTurn[] = []): Promise<RetrievedTurn[]> {
+    if (!this.embeddingModel) {
+      throw new Error('retrieveTurns needs an embedding model: new ContextManager({ embeddingModel: createEmbeddingModel() })');
+    }
+
+    const unembedded = this.conversation.filter(turn => !this.vectors.has(turn.id));
+    if (unembedded.length > 0) {
+      const { embeddings } = await embedMany({ model: this.embeddingModel, values: unembedded.map(turn => formatTurn(turn)) });
+      for (const [index, turn] of unembedded.entries()) this.vectors.set(turn.id, embeddings[index]!);
+    }
+
+    const { embedding } = await embed({ model: this.embeddingModel, value: question });
+    const ranked = this.conversation
+      .filter(turn => !exclude.includes(turn))
+      .map(turn => ({ turn, similarity: cosineSimilarity(embedding, this.vectors.get(turn.id)!) }));
+    ranked.sort((left, right) => right.similarity - left.similarity || right.turn.id - left.turn.id);
+    return ranked.slice(0, topK);
+  }
+
+  // The top-k turns most similar to the question, oldest first, followed by the recent window
+  async getRelevantContext(question: string, { topK = 2, minSimilarity = 0, recentTurns = 0 }: RelevantContextOptions = {}): Promise<string> {
+    checkRecentTurns(recentTurns);
+    const recent = recentTurns > 0 ? this.conversation.slice(-recentTurns) : [];
+    const retrieved = await this.retrieveTurns(question, topK, recent);
+    const relevant = this.conversation.filter(turn =>
+      retrieved.some(match => match.turn === turn && match.similarity > minSimilarity));
+
+    const entries = [...turnEntries(relevant, 'relevant'), ...turnEntries(recent)];
+    return entries.length > 0 ? this.serializer.serialize(entries) : "No previous conversation.";
+  }
+
+  getConversationLength(): number {
+    return this.conversation.length;
+  }
+}
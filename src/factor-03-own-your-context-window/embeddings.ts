@@ -0,0 +1,85 @@
+import { ollama } from 'ai-sdk-ollama';
+
+import type { EmbeddingModelV2 } from '@ai-sdk/provider';
+
+// 🧭 EMBEDDINGS
+// EMBEDDING_MODEL picks the model that embeds conversation turns for retrieval:
+//   hashing (default)          a deterministic stand-in that runs offline, in CI and with MODEL=mock
+//   ollama:nomic-embed-text    a local embedding model served by Ollama
+// The stand-in matches words, not meanings: "dog" finds "dogs", but "pet" does not find "dog".
+
+export const DEFAULT_EMBEDDING_MODEL = 'hashing';
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'am', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for',
+  'from', 'had', 'has', 'have', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'so',
+  'that', 'the', 'their', 'there', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why',
+  'will', 'with', 'would', 'you', 'your', 'user', 'assistant',
+]);
+
+// 32-bit FNV-1a
+function hash(text: string): number {
+  let value = 0x81_1C_9D_C5;
+  for (const character of text) {
+    value ^= character.codePointAt(0)!;
+    value = Math.imul(value, 0x01_00_01_93) >>> 0;
+  }
+  return value;
+}
+
+function terms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term))
+    // Plurals share a vector position with their singular
+    .map(term => (term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term));
+}
+
+// Feature hashing: each word adds ±1 at a position picked by its hash, then the vector is scaled to length 1
+export class HashingEmbeddingModel implements EmbeddingModelV2<string> {
+  readonly specificationVersion = 'v2';
+  readonly provider = 'hashing';
+  readonly modelId: string;
+  readonly maxEmbeddingsPerCall = undefined;
+  readonly supportsParallelCalls = true;
+
+  constructor(private readonly dimensions = 512) {
+    this.modelId = `words-${dimensions}`;
+  }
+
+  embedText(text: string): number[] {
+    const vector = Array.from<number>({ length: this.dimensions }).fill(0);
+    for (const term of terms(text)) {
+      const value = hash(term);
+      vector[value % this.dimensions]! += value & 0x80_00_00_00 ? -1 : 1;
+    }
+
+    const norm = Math.hypot(...vector);
+    return norm === 0 ? vector : vector.map(component => component / norm);
+  }
+
+  async doEmbed({ values }: { values: string[] }) {
+    return { embeddings: values.map(value => this.embedText(value)) };
+  }
+}
+
+export function createEmbeddingModel(spec = process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL): EmbeddingModelV2<string> {
+  if (spec === 'hashing') return new HashingEmbeddingModel();
+  if (spec.startsWith('ollama:') && spec.length > 'ollama:'.length) return ollama.embedding(spec.slice('ollama:'.length));
+  throw new Error(`Invalid EMBEDDING_MODEL "${spec}". Expected hashing or ollama:<model-id>, e.g. ollama:nomic-embed-text`);
+}
+
+export function cosineSimilarity(left: number[], right: number[]): number {
+  let dot = 0;
+  let leftNorm = 0;
+  let rightNorm = 0;
+
+  for (const [index, value] of left.entries()) {
+    dot += value * (right[index] ?? 0);
+    leftNorm += value * value;
+  }
+  for (const value of right) rightNorm += value * value;
+
+  return leftNorm === 0 || rightNorm === 0 ? 0 : dot / Math.sqrt(leftNorm * rightNorm);
+}
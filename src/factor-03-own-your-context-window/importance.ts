@@ -0,0 +1,124 @@
+import { Agent } from '@mastra/core/agent';
+import { z } from 'zod';
+
+import { modelFor } from '../model';
+import { traceAgentCall } from '../trace';
+import type { ConversationTurn, Importance, ImportanceSource } from './context-manager';
+
+// ⚖️ IMPORTANCE CLASSIFICATION
+// In a live chat nobody labels turns by hand. Every turn gets an importance from cheap heuristics when it is
+// added; a classifier agent can then re-rate the heuristic labels in one batched call, and a label set by
+// hand is never changed by either.
+
+export interface ImportanceRating {
+  importance: Importance;
+  source: ImportanceSource;
+  // Why the turn got its importance, e.g. "personal fact, number"
+  reason: string;
+}
+
+interface ImportanceSignal {
+  name: string;
+  importance: Exclude<Importance, 'low'>;
+  // Which side of the turn the signal is looked for in
+  in: 'user' | 'both';
+  pattern: RegExp;
+}
+
+// Strongest first; a turn takes the importance of the strongest signal it matches
+const SIGNALS: ImportanceSignal[] = [
+  {
+    name: 'personal fact',
+    importance: 'high',
+    in: 'user',
+    pattern: /\b[Mm]y name is\b|\bcall me\b|\bI'm [A-Z][a-z]+\b|\byears? old\b|\bnamed\b|\bI (?:live|moved|work|study)\b|\b[Mm]y (?:wife|husband|partner|sister|brother|mother|mom|father|dad|son|daughter|kids?|children)\b/,
+  },
+  // "I'll check that for you" is assistant filler, so only the user's own plans count; either side can state
+  // an outcome that was settled
+  {
+    name: 'commitment',
+    importance: 'high',
+    in: 'user',
+    pattern: /\b(?:I|[Ww]e)(?:'ll| will| promise| agree| commit)\b|\b(?:planning|plan to)\b/,
+  },
+  {
+    name: 'commitment',
+    importance: 'high',
+    in: 'both',
+    pattern: /\b(?:promised|agreed|decided|deadline)\b/i,
+  },
+  { name: 'number', importance: 'medium', in: 'both', pattern: /\d/ },
+  {
+    name: 'preference',
+    importance: 'medium',
+    in: 'user',
+    pattern: /\bI (?:really )?(?:like|love|prefer|hate|enjoy)\b|\bmy favou?rite\b/i,
+  },
+];
+
+const IMPORTANCE_ORDER: Importance[] = ['high', 'medium', 'low'];
+
+export function rateByHeuristics(user: string, assistant: string): ImportanceRating {
+  const matched = SIGNALS.filter(signal => signal.pattern.test(signal.in === 'user' ? user : `${user}\n${assistant}`));
+  if (matched.length === 0) return { importance: 'low', source: 'heuristic', reason: 'no signal' };
+
+  return {
+    importance: IMPORTANCE_ORDER.find(level => matched.some(signal => signal.importance === level))!,
+    source: 'heuristic',
+    reason: [...new Set(matched.map(signal => signal.name))].join(', '),
+  };
+}
+
+export const turnRatingsSchema = z.object({
+  turns: z.array(z.object({
+    id: z.number(),
+    importance: z.enum(['high', 'medium', 'low']),
+    reason: z.string(),
+  })),
+});
+
+const CLASSIFIER_INSTRUCTIONS = `You rate how important each conversation turn is for an assistant that will later see only the important turns.
+
+- high: facts about the user or their situation, and commitments, decisions, deadlines or ids that must not be forgotten
+- medium: preferences and details that help personalize answers
+- low: small talk, and questions that have been fully answered
+
+Each turn shows the rating keyword heuristics gave it; they miss facts stated without keywords, so correct them where needed. Rate every turn you are given and give a short reason.`;
+
+export function createImportanceAgent() {
+  return new Agent({
+    name: 'ImportanceClassifier',
+    instructions: CLASSIFIER_INSTRUCTIONS,
+    model: modelFor('ImportanceClassifier'),
+  });
+}
+
+export class ImportanceClassifier {
+  private callCount = 0;
+
+  constructor(private readonly agent: Agent = createImportanceAgent()) {}
+
+  // Ratings by turn id; a turn the agent leaves out keeps the rating it has
+  async classify(turns: ConversationTurn[]): Promise<Map<number, ImportanceRating>> {
+    if (turns.length === 0) return new Map();
+
+    const message = [
+      'Turns to rate:',
+      ...turns.map(turn =>
+        `\nTurn ${turn.id} (heuristics: ${turn.importance}, ${turn.importanceReason})\nUser: ${turn.user}\nAssistant: ${turn.assistant}`),
+    ].join('\n');
+    const result = await traceAgentCall(this.agent.name, `Rate turns ${turns.map(turn => turn.id).join(', ')}`, () =>
+      this.agent.generateVNext(message, { output: turnRatingsSchema }));
+    this.callCount++;
+
+    const ids = new Set(turns.map(turn => turn.id));
+    return new Map(result.object.turns
+      .filter(rating => ids.has(rating.id))
+      .map(rating => [rating.id, { importance: rating.importance, source: 'classifier', reason: rating.reason }]));
+  }
+
+  // Classifier calls made so far
+  get calls(): number {
+    return this.callCount;
+  }
+}
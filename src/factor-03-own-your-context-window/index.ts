@@ -2,88 +2,19 @@
 
 import { Agent } from '@mastra/core/agent';
 import { createTool } from '@mastra/core/tools';
+import { parse as parseYaml } from 'yaml';
 import { z } from 'zod';
-import { model } from '../model';
-
-console.log('🎯 Factor 3: Own Your Context Window');
-console.log('====================================');
-
-// 🧠 CONTEXT WINDOW MANAGEMENT
-// Explicit control over what information the LLM sees
-
-interface ConversationTurn {
-  id: number;
-  user: string;
-  assistant: string;
-  timestamp: Date;
-  importance: 'high' | 'medium' | 'low';
-}
-
-class ContextManager {
-  private conversation: ConversationTurn[] = [];
-  private turnCounter = 0;
-
-  addTurn(user: string, assistant: string, importance: 'high' | 'medium' | 'low' = 'medium') {
-    this.turnCounter++;
-    this.conversation.push({
-      id: this.turnCounter,
-      user,
-      assistant,
-      timestamp: new Date(),
-      importance
-    });
-  }
-
-  // 🎯 EXPLICIT CONTEXT STRATEGIES
-
-  // Strategy 1: Recent messages only (sliding window)
-  getRecentContext(maxTurns: number = 3): string {
-    const recent = this.conversation.slice(-maxTurns);
-    if (recent.length === 0) return "No previous conversation.";
-
-    return recent.map(turn =>
-      `User: ${turn.user}\nAssistant: ${turn.assistant}`
-    ).join('\n\n');
-  }
-
-  // Strategy 2: Important messages only (filtered context)
-  getImportantContext(): string {
-    const important = this.conversation.filter(turn => turn.importance === 'high');
-    if (important.length === 0) return "No important previous information.";
-
-    return important.map(turn =>
-      `[IMPORTANT] User: ${turn.user}\nAssistant: ${turn.assistant}`
-    ).join('\n\n');
-  }
-
-  // Strategy 3: Summary + recent (compressed context)
-  getSummaryContext(): string {
-    const older = this.conversation.slice(0, -2);
-    const recent = this.conversation.slice(-2);
-
-    let context = "";
-
-    if (older.length > 0) {
-      const names = older.map(t => t.user.match(/name is (\w+)/)?.[1]).filter(Boolean);
-      const uniqueNames = [...new Set(names)];
-      if (uniqueNames.length > 0) {
-        context += `[SUMMARY] User's name: ${uniqueNames.join(', ')}\n\n`;
-      }
-    }
-
-    if (recent.length > 0) {
-      context += recent.map(turn =>
-        `User: ${turn.user}\nAssistant: ${turn.assistant}`
-      ).join('\n\n');
-    }
-
-    return context || "No context available.";
-  }
-
-  getConversationLength(): number {
-    return this.conversation.length;
-  }
-}
+import { Expectations, isMainModule, type Scenario } from '../harness';
+import { inspectRequests, messageTexts, printProviderRequest } from '../inspect';
+import { modelFor } from '../model';
+import { traceAgentCall, traceTools } from '../trace';
+import { usageTracker } from '../usage';
+import { ContextManager, formatPrompt, type BudgetedContext, type Importance, type TokenBudget } from './context-manager';
+import { createEmbeddingModel } from './embeddings';
+import { ImportanceClassifier } from './importance';
+import { CONTEXT_SERIALIZERS, type ContextFormat } from './serializers';
+import { formatSummary, RollingSummarizer } from './summarizer';
+import { countTokens } from './tokens';
 
 // 🔢 Simple tool for demonstration
 const addTool = createTool({
@@ -95,7 +26,6 @@ const addTool = createTool({
   description: 'Add two numbers',
   execute: async ({ context }) => {
     const result = context.a + context.b;
-    console.log(`[🔢 Tool] ${context.a} + ${context.b} = ${result}`);
     return { result };
   },
 });
@@ -113,14 +43,15 @@ When responding:
 2. Reference previous information when relevant
 3. Use the add tool for calculations
 4. Be natural and conversational`,
-    model,
-    tools: { addTool },
+    model: modelFor('ContextAgent'),
+    tools: traceTools({ addTool }),
   });
 }
 
 // 🎭 DEMONSTRATION: Same Conversation, Different Context Windows
 async function demonstrateContextControl() {
-  const contextManager = new ContextManager();
+  const summarizer = new RollingSummarizer();
+  const contextManager = new ContextManager({ summarizer });
 
   console.log('\n🎬 Building conversation history...\n');
 
@@ -146,29 +77,37 @@ async function demonstrateContextControl() {
   // Now test different context strategies with a new question
   const testQuestion = "What do you remember about me?";
 
+  const userMessages = conversationSteps.map(step => step.user);
+
   const strategies = [
     {
       name: 'Recent Context (3 turns)',
       getContext: () => contextManager.getRecentContext(3),
-      description: 'Only the last 3 conversation turns'
+      description: 'Only the last 3 conversation turns',
+      expectedTurns: userMessages.slice(-3)
     },
     {
       name: 'Important Context Only',
       getContext: () => contextManager.getImportantContext(),
-      description: 'Only messages marked as high importance'
+      description: 'Only messages marked as high importance',
+      expectedTurns: conversationSteps.filter(step => step.importance === 'high').map(step => step.user)
     },
     {
       name: 'Summary + Recent',
       getContext: () => contextManager.getSummaryContext(),
-      description: 'Compressed summary + recent messages'
+      description: 'Compressed summary + recent messages',
+      expectedTurns: userMessages.slice(-2)
     },
     {
       name: 'No Context',
       getContext: () => "No previous conversation context available.",
-      description: 'Fresh conversation with no history'
+      description: 'Fresh conversation with no history',
+      expectedTurns: []
     }
   ];
 
+  const expectations = new Expectations();
+
   console.log(`${'='.repeat(60)}`);
   console.log('🧪 Testing Different Context Strategies');
   console.log(`${'='.repeat(60)}`);
@@ -179,25 +118,42 @@ async function demonstrateContextControl() {
     console.log(`📝 Description: ${strategy.description}`);
     console.log(`${'─'.repeat(50)}`);
 
-    const context = strategy.getContext();
+    const context = await strategy.getContext();
     console.log('\n[📋 Context Window Contents]:');
     console.log(`"${context}"`);
 
+    // The strategy alone decides which turns the model sees
+    const turnsInContext = [...context.matchAll(/User: (.*)/g)].map(match => match[1]);
+    expectations.equal('Turns in Context', turnsInContext, strategy.expectedTurns);
+
     // Create agent and ask question with this specific context
     const agent = createContextAwareAgent(strategy.name);
 
     // Prepare the prompt with explicit context
-    const promptWithContext = `CONVERSATION CONTEXT:
-${context}
-
-CURRENT QUESTION: ${testQuestion}`;
+    const promptWithContext = formatPrompt(context, testQuestion);
 
     console.log(`\n❓ Question: "${testQuestion}"`);
     console.log('🧠 Processing with context strategy...');
 
-    const result = await agent.generateVNext(promptWithContext);
+    const { result, requests } = await inspectRequests(() =>
+      traceAgentCall(agent.name, promptWithContext, () => agent.generateVNext(promptWithContext)));
     console.log(`💬 Response: ${result.text}`);
+
+    // What the provider received: the strategy's context inside the user message, and the add tool as a JSON schema
+    const [request] = requests;
+    if (index === 0 && request) printProviderRequest(request);
+    expectations.check('Context Reaches the Model', request !== undefined && messageTexts(request, 'user').at(-1) === promptWithContext);
+    expectations.equal('Tools Sent', request?.tools.map(tool => Object.keys(tool.inputSchema?.properties ?? {})), [['a', 'b']]);
   }
+
+  // Older turns are compressed to the facts worth keeping, and the summary is reused until more turns age out.
+  // A live summarizer words the facts its own way, so only their structure and the name are checked.
+  const summaryContext = await contextManager.getSummaryContext();
+  const { facts } = summarizer.latest.summary;
+  expectations.check('Summary Covers Turns 1-3', summaryContext.startsWith('[SUMMARY of turns 1-3]'));
+  expectations.check('Summary Keeps User Name', facts.some(fact => /\balex\b/i.test(fact)), `facts: ${JSON.stringify(facts)}`);
+  expectations.equal('Summarizer Calls', summarizer.updates, 1);
+  expectations.verify();
 }
 
 // 🎯 CONTEXT WINDOW SIZE DEMONSTRATION
@@ -218,25 +174,369 @@ async function demonstrateContextLimits() {
   }
 
   const windowSizes = [2, 4, 6, 8];
+  const expectations = new Expectations();
 
   for (const size of windowSizes) {
     console.log(`\n🔍 Context Window Size: ${size} turns`);
     const context = contextManager.getRecentContext(size);
-    const lines = context.split('\n').length;
-    console.log(`   📊 Context contains ${lines} lines`);
+    console.log(`   📊 Context contains ${countTokens(context)} tokens`);
     console.log(`   📝 Sample: "${context.slice(0, 100)}${context.length > 100 ? '...' : ''}"`);
+
+    // Turns are separated by a blank line; the window keeps the newest ones
+    expectations.equal('Turns in Window', context.split('\n\n').length, size);
+    expectations.check('Newest Turn Included', context.endsWith('Got it, thanks for message 8!'));
+  }
+
+  expectations.verify();
+}
+
+// 💸 TOKEN BUDGETS
+// A long support thread: a few facts that must survive, routine back-and-forth, and pasted logs
+// that take up most of the tokens
+
+const syncLog = Array.from({ length: 40 }, (_, index) =>
+  `2026-03-04T09:${String(10 + index).padStart(2, '0')}:00Z ERROR inventory-sync worker-${index % 4}: upstream timeout after 30000ms (batch ${1200 + index})`,
+).join('\n');
+
+const SUPPORT_THREAD: Array<{ user: string; assistant: string; importance: Importance }> = [
+  { user: 'Hi, our inventory sync has been failing since this morning. Account ACME-4471, enterprise plan.', assistant: 'Sorry to hear that. I have your account, ACME-4471 on the enterprise plan. When did the first failure happen?', importance: 'high' },
+  { user: 'Around 09:10 UTC. Nothing changed on our side.', assistant: 'Thanks. Could you paste the sync log from the dashboard?', importance: 'medium' },
+  { user: `Here it is:\n${syncLog}`, assistant: 'Every batch times out upstream after 30 seconds, on all four workers.', importance: 'low' },
+  { user: 'Is this affecting other customers?', assistant: 'Our status page shows a degraded upstream provider in eu-west-1 since 09:05 UTC.', importance: 'medium' },
+  { user: 'We are in eu-west-1. Can you move us to another region?', assistant: 'I have requested a failover of ACME-4471 to eu-central-1. Ticket FO-2291 tracks it.', importance: 'high' },
+  { user: `The failover did not help, same errors:\n${syncLog}`, assistant: 'The failover has not completed yet; these errors are still from eu-west-1.', importance: 'low' },
+  { user: 'How long will the failover take?', assistant: 'Usually under an hour. I will check on FO-2291 at 11:00 UTC.', importance: 'medium' },
+  { user: 'Thanks. By the way, love the new dashboard design.', assistant: 'Thank you, I will pass that on to the design team!', importance: 'low' },
+  { user: 'We lose sales for every hour the sync is down. Will we get a credit?', assistant: 'Yes. Enterprise SLA credits apply: 10% of the monthly fee per hour of downtime, approved by my manager.', importance: 'high' },
+  { user: 'Good. Please send the credit note to finance@acme.example.', assistant: 'Noted: the credit note goes to finance@acme.example.', importance: 'medium' },
+];
+
+const BUDGETS: Array<{ name: string; budget: TokenBudget }> = [
+  { name: 'Small model (2k tokens)', budget: { contextLimit: 2000, reservedOutput: 500 } },
+  { name: 'Large model (32k tokens)', budget: { contextLimit: 32_000, reservedOutput: 4000 } },
+];
+
+function printBudget(name: string, budget: TokenBudget, context: BudgetedContext) {
+  console.log(`\n📐 ${name}: ${budget.contextLimit} tokens, ${budget.reservedOutput} reserved for the answer`);
+  for (const section of context.sections) {
+    const share = ((section.tokens / budget.contextLimit) * 100).toFixed(1);
+    console.log(`   ${section.name.padEnd(16)}${String(section.tokens).padStart(7)} tokens ${share.padStart(6)}%`);
+  }
+  console.log(`   Included turns: ${context.included.map(turn => `#${turn.id} (${turn.importance})`).join(', ') || 'none'}`);
+  if (context.omitted.length > 0) {
+    console.log(`   Omitted turns:  ${context.omitted.map(turn => `#${turn.id} (${turn.importance})`).join(', ')}`);
   }
 }
 
+async function demonstrateTokenBudget() {
+  console.log(`\n${'='.repeat(60)}`);
+  console.log('💸 Token-Budgeted Context');
+  console.log(`${'='.repeat(60)}`);
+
+  const contextManager = new ContextManager();
+  for (const turn of SUPPORT_THREAD) contextManager.addTurn(turn.user, turn.assistant, turn.importance);
+
+  const question = 'Where are we with the sync problem, and what has been promised to us?';
+  const agent = createContextAwareAgent('Token Budget');
+  const instructions = String(await agent.getInstructions());
+  const fullHistory = contextManager.getRecentContext(SUPPORT_THREAD.length);
+  console.log(`\n📊 Full thread: ${SUPPORT_THREAD.length} turns, ${countTokens(fullHistory)} tokens`);
+
+  const expectations = new Expectations();
+  const highImportance = SUPPORT_THREAD.flatMap((turn, index) => (turn.importance === 'high' ? [index + 1] : []));
+  let smallest: { budget: TokenBudget; context: BudgetedContext } | undefined;
+
+  for (const { name, budget } of BUDGETS) {
+    const context = contextManager.getBudgetedContext(budget, instructions, question);
+    smallest ??= { budget, context };
+    printBudget(name, budget, context);
+
+    let total = 0;
+    for (const section of context.sections) total += section.tokens;
+    console.log('');
+    expectations.equal('Sections Add Up to the Limit', total, budget.contextLimit);
+    expectations.check('Within Budget', context.sections.every(section => section.tokens >= 0));
+    expectations.equal('High-Importance Turns Kept', highImportance.filter(id => context.included.some(turn => turn.id === id)), highImportance);
+  }
+
+  // The small budget cannot hold the pasted logs; the large one holds everything
+  expectations.equal('Small Budget Drops the Logs', smallest?.context.omitted.map(turn => turn.id), [3, 6]);
+
+  // The packed prompt as the provider receives it, measured with the same tokenizer
+  const { budget, context } = smallest!;
+  console.log(`\n❓ Question: "${question}"`);
+  const { result, requests } = await inspectRequests(() =>
+    traceAgentCall(agent.name, context.prompt, () => agent.generateVNext(context.prompt)));
+  console.log(`💬 Response: ${result.text}`);
+
+  const [request] = requests;
+  let requestTokens = 0;
+  for (const text of request ? [...messageTexts(request, 'system'), ...messageTexts(request, 'user')] : []) requestTokens += countTokens(text);
+  console.log(`\n📨 Request: ${requestTokens} tokens of messages, ${budget.contextLimit - budget.reservedOutput} allowed`);
+  expectations.check('Request Fits the Budget', request !== undefined && requestTokens <= budget.contextLimit - budget.reservedOutput);
+  expectations.verify();
+}
+
+// 📜 ROLLING SUMMARY DEMONSTRATION
+// The support thread arrives a few turns at a time; each time the assistant needs context, the turns that
+// left the two-turn recent window since the last update are folded into the summary
+
+async function demonstrateRollingSummary() {
+  console.log(`\n${'='.repeat(60)}`);
+  console.log('📜 Rolling Summary');
+  console.log(`${'='.repeat(60)}`);
+
+  const summarizer = new RollingSummarizer();
+  const contextManager = new ContextManager({ summarizer });
+  const expectations = new Expectations();
+  let context = '';
+
+  // Context is requested after turns 4, 7 and 10, and once more after 10 with nothing new
+  for (const [checkpoint, expectedUpdates] of [[4, 1], [7, 2], [10, 3], [10, 3]] as const) {
+    for (const turn of SUPPORT_THREAD.slice(contextManager.getConversationLength(), checkpoint)) {
+      contextManager.addTurn(turn.user, turn.assistant, turn.importance);
+    }
+
+    const updatesBefore = summarizer.updates;
+    context = await contextManager.getSummaryContext();
+    const cached = summarizer.updates === updatesBefore;
+    console.log(`\n📍 After turn ${checkpoint}: ${cached ? '♻️  summary served from cache' : `🔄 summary updated (call ${summarizer.updates})`}`);
+    if (!cached) console.log(formatSummary(summarizer.latest));
+    expectations.equal('Summarizer Calls', summarizer.updates, expectedUpdates);
+  }
+
+  console.log('\n[📋 Context Window Contents]:');
+  console.log(context);
+  console.log(`\n📊 ${countTokens(context)} tokens, against ${countTokens(contextManager.getRecentContext(SUPPORT_THREAD.length))} for the full thread`);
+
+  // Everything the support agent must not forget survives the compaction; the pasted logs do not.
+  // The exact facts are only checked against the mock's scripted summary: a live model words them its own way.
+  const { summary, throughTurn } = summarizer.latest;
+  console.log('');
+  expectations.check('Summary Covers Turns 1-8', throughTurn === 8 && context.startsWith('[SUMMARY of turns 1-8]'));
+  expectations.check('Facts and Decisions Kept', summary.facts.length > 0 && summary.decisions.length > 0);
+  if (modelFor('ContextSummarizer').provider === 'mock') {
+    expectations.check('Facts Kept', ['ACME-4471', 'eu-west-1'].every(fact => context.includes(fact)));
+    expectations.check('Decisions Kept', ['FO-2291', '10%'].every(decision => context.includes(decision)));
+  }
+  expectations.check('Logs Dropped', !context.includes('upstream timeout after 30000ms'));
+  expectations.equal('Recent Turns Verbatim', [...context.matchAll(/User: (.*)/g)].map(match => match[1]), SUPPORT_THREAD.slice(-2).map(turn => turn.user));
+  expectations.verify();
+}
+
+// 🔎 SEMANTIC RETRIEVAL DEMONSTRATION
+// The dog was mentioned early in a long chat: a recent window has long since lost it, but retrieval
+// finds the turn by its similarity to the question and puts it in front of the recent window
+
+const PERSONAL_THREAD = [
+  { user: "Hi, I'm Alex. I just moved to Lisbon for a new job.", assistant: 'Welcome to Lisbon, Alex! How are you settling in?' },
+  { user: 'I have a dog named Max, a two-year-old beagle.', assistant: 'Max sounds lovely. Beagles have plenty of energy!' },
+  { user: "My sister's birthday is on June 3rd and I need a gift idea.", assistant: 'How about a cooking class you could take together?' },
+  { user: 'I like pizza and coding.', assistant: 'A great combination for a weekend hackathon.' },
+  { user: "Work is busy: we're migrating our billing service to TypeScript.", assistant: 'Migrating one module at a time keeps the risk low.' },
+  { user: 'Can you recommend a book on distributed systems?', assistant: 'Designing Data-Intensive Applications by Martin Kleppmann.' },
+  { user: 'Yesterday I went to the movies.', assistant: 'Nice! What did you see?' },
+  { user: 'A documentary about deep-sea exploration.', assistant: 'The deep sea is stranger than most science fiction.' },
+  { user: 'My favorite color is blue.', assistant: 'Noted: blue it is.' },
+  { user: "I'm planning a trip to Porto next month.", assistant: 'Porto is beautiful in spring. Try a francesinha while you are there.' },
+];
+
+const RETRIEVAL_QUESTIONS = [
+  { question: 'What do you remember about my dog?', expectedTurn: 2 },
+  { question: "When is my sister's birthday again?", expectedTurn: 3 },
+];
+
+async function demonstrateSemanticRetrieval() {
+  console.log(`\n${'='.repeat(60)}`);
+  console.log('🔎 Semantic Retrieval');
+  console.log(`${'='.repeat(60)}`);
+
+  const embeddingModel = createEmbeddingModel();
+  const contextManager = new ContextManager({ embeddingModel });
+  for (const turn of PERSONAL_THREAD) contextManager.addTurn(turn.user, turn.assistant);
+  console.log(`\n📊 Conversation history: ${contextManager.getConversationLength()} turns, embedded with ${embeddingModel.provider}/${embeddingModel.modelId}`);
+
+  const expectations = new Expectations();
+  const recentTurns = 2;
+
+  for (const { question, expectedTurn } of RETRIEVAL_QUESTIONS) {
+    console.log(`\n❓ Question: "${question}"`);
+    const retrieved = await contextManager.retrieveTurns(question, 3);
+    for (const { turn, similarity } of retrieved) {
+      console.log(`   ${similarity.toFixed(3)}  turn ${String(turn.id).padStart(2)}  ${turn.user}`);
+    }
+    expectations.equal('Most Similar Turn', retrieved[0]?.turn.id, expectedTurn);
+  }
+
+  // Retrieval combined with the recent window: the Max turn first, then the last two turns verbatim.
+  // Only one turn shares a word with the question, so the second retrieval slot stays empty.
+  const [{ question }] = RETRIEVAL_QUESTIONS as [(typeof RETRIEVAL_QUESTIONS)[number]];
+  const recentOnly = contextManager.getRecentContext(recentTurns);
+  const context = await contextManager.getRelevantContext(question, { topK: 2, recentTurns });
+
+  console.log('\n[📋 Context Window Contents]:');
+  console.log(context);
+
+  const turnsInContext = [...context.matchAll(/User: (.*)/g)].map(match => match[1]);
+  expectations.check('Recent Window Alone Misses Max', !recentOnly.includes('Max'));
+  expectations.check('Max Turn Retrieved', context.startsWith(`[RELEVANT] User: ${PERSONAL_THREAD[1]!.user}`));
+  expectations.equal('Recent Turns Verbatim', turnsInContext.slice(-recentTurns), PERSONAL_THREAD.slice(-recentTurns).map(turn => turn.user));
+  expectations.equal('No Turn Twice', new Set(turnsInContext).size, turnsInContext.length);
+  expectations.check('Unrelated Turns Left Out', !context.includes('deep-sea'));
+
+  const agent = createContextAwareAgent('Relevant Turns + Recent');
+  const prompt = formatPrompt(context, question);
+  console.log(`\n❓ Question: "${question}"`);
+  const result = await traceAgentCall(agent.name, prompt, () => agent.generateVNext(prompt));
+  console.log(`💬 Response: ${result.text}`);
+  expectations.verify();
+}
+
+// ⚖️ IMPORTANCE CLASSIFICATION DEMONSTRATION
+// The same unlabeled chat: heuristics rate each turn as it arrives, the user pins one turn by hand,
+// and the classifier agent re-rates the rest in a single call
+
+// What a person would label PERSONAL_THREAD, and what the heuristics should already get right
+const HEURISTIC_LABELS: Importance[] = ['high', 'high', 'high', 'medium', 'low', 'low', 'low', 'low', 'medium', 'high'];
+const PINNED_TURN = 6;
+
+function printRatings(contextManager: ContextManager) {
+  for (const turn of contextManager.getTurns()) {
+    console.log(`   #${String(turn.id).padEnd(3)} ${turn.importance.padEnd(7)} ${turn.importanceSource.padEnd(11)} ${turn.user}`);
+    console.log(`        ↳ ${turn.importanceReason}`);
+  }
+}
+
+async function demonstrateImportanceClassification() {
+  console.log(`\n${'='.repeat(60)}`);
+  console.log('⚖️  Importance Classification');
+  console.log(`${'='.repeat(60)}`);
+
+  const importanceClassifier = new ImportanceClassifier();
+  const contextManager = new ContextManager({ importanceClassifier });
+  const expectations = new Expectations();
+
+  for (const turn of PERSONAL_THREAD) contextManager.addTurn(turn.user, turn.assistant);
+  console.log('\n🔍 Rated by heuristics as the turns arrive:');
+  printRatings(contextManager);
+  expectations.equal('Heuristic Labels', contextManager.getTurns().map(turn => turn.importance), HEURISTIC_LABELS);
+
+  contextManager.setImportance(PINNED_TURN, 'high');
+  console.log(`\n📌 Turn ${PINNED_TURN} pinned as high by the user`);
+
+  await contextManager.classifyTurns();
+  // Nothing is left for the classifier, so no second call is made
+  await contextManager.classifyTurns();
+  console.log('\n🤖 After the classifier agent:');
+  printRatings(contextManager);
+
+  const turns = contextManager.getTurns();
+  const pinned = turns.find(turn => turn.id === PINNED_TURN);
+  expectations.equal('Classifier Calls', importanceClassifier.calls, 1);
+  expectations.check('Manual Override Kept', pinned?.importance === 'high' && pinned.importanceSource === 'manual');
+  expectations.check('Every Other Turn Re-rated', turns.every(turn => turn.id === PINNED_TURN || turn.importanceSource === 'classifier'));
+
+  // getImportantContext now works on a chat nobody labeled
+  const context = contextManager.getImportantContext();
+  console.log('\n[📋 Important Context]:');
+  console.log(context);
+  const important = new Set(turns.filter(turn => turn.importance === 'high').map(turn => turn.user));
+  expectations.equal('Important Turns', [...context.matchAll(/User: (.*)/g)].map(match => match[1]), PERSONAL_THREAD.map(turn => turn.user).filter(user => important.has(user)));
+  expectations.check('Name, Dog and Pinned Turn Kept', ['Alex', 'Max', 'distributed systems'].every(fact => context.includes(fact)));
+  expectations.verify();
+}
+
+// 🧾 CONTEXT FORMAT DEMONSTRATION
+// Every strategy rendered in every format: the turns chosen are the same, the tokens they cost are not
+
+async function demonstrateContextFormats() {
+  console.log(`\n${'='.repeat(60)}`);
+  console.log('🧾 Context Formats');
+  console.log(`${'='.repeat(60)}`);
+
+  // One conversation rendered in all four formats: the summary is made once, then served from its cache
+  const summarizer = new RollingSummarizer();
+  const contextManager = new ContextManager({ summarizer, embeddingModel: createEmbeddingModel() });
+  for (const turn of PERSONAL_THREAD) contextManager.addTurn(turn.user, turn.assistant);
+  const formats = Object.keys(CONTEXT_SERIALIZERS) as ContextFormat[];
+
+  const [{ question }] = RETRIEVAL_QUESTIONS as [(typeof RETRIEVAL_QUESTIONS)[number]];
+  const strategies = [
+    { name: 'Recent (3 turns)', getContext: async () => contextManager.getRecentContext(3) },
+    { name: 'Important Only', getContext: async () => contextManager.getImportantContext() },
+    { name: 'Summary + Recent', getContext: () => contextManager.getSummaryContext() },
+    { name: 'Relevant + Recent', getContext: () => contextManager.getRelevantContext(question, { recentTurns: 2 }) },
+  ];
+
+  const expectations = new Expectations();
+  const contexts = new Map<string, string[]>();
+  // The first format makes the summary; the later ones find it cached
+  for (const strategy of strategies) {
+    const rendered: string[] = [];
+    for (const format of formats) {
+      contextManager.setSerializer(CONTEXT_SERIALIZERS[format]);
+      rendered.push(await strategy.getContext());
+    }
+    contexts.set(strategy.name, rendered);
+  }
+
+  const [plainRelevant, xmlRelevant] = contexts.get('Relevant + Recent')!;
+  console.log('\n[📋 Relevant + Recent, plain]:');
+  console.log(plainRelevant);
+  console.log('\n[📋 Relevant + Recent, xml]:');
+  console.log(xmlRelevant);
+
+  console.log('\n📊 Tokens per strategy and format:');
+  console.log(`   ${'Strategy'.padEnd(20)}${formats.map(format => format.padStart(8)).join('')}`);
+  for (const [name, rendered] of contexts) {
+    console.log(`   ${name.padEnd(20)}${rendered.map(context => String(countTokens(context)).padStart(8)).join('')}`);
+  }
+
+  // Only the format changes: every format carries the same turns, and the structured ones parse
+  console.log('');
+  const turnsIn = (context: string) => PERSONAL_THREAD.filter(turn => context.includes(turn.user)).map(turn => turn.user);
+  expectations.check('Same Turns in Every Format', [...contexts.values()].every(([plain, ...others]) =>
+    others.every(context => JSON.stringify(turnsIn(context)) === JSON.stringify(turnsIn(plain!)))));
+  expectations.check('Plain Format Unchanged', contexts.get('Recent (3 turns)')![0] ===
+    PERSONAL_THREAD.slice(-3).map(turn => `User: ${turn.user}\nAssistant: ${turn.assistant}`).join('\n\n'));
+  expectations.equal('Summarizer Calls', summarizer.updates, 1);
+  const summaryContexts = contexts.get('Summary + Recent')!;
+  expectations.equal('YAML and JSON Agree', parseYaml(summaryContexts[formats.indexOf('yaml')]!), JSON.parse(summaryContexts[formats.indexOf('json')]!));
+
+  // Answer quality per format: the same question over the same retrieved turns
+  for (const [index, format] of formats.entries()) {
+    const agent = createContextAwareAgent(`Relevant Turns + Recent (${format})`);
+    const prompt = formatPrompt(contexts.get('Relevant + Recent')![index]!, question);
+    const result = await traceAgentCall(agent.name, `${format}: ${question}`, () => agent.generateVNext(prompt));
+    console.log(`💬 ${format}: ${result.text}`);
+    expectations.check(`Answer Mentions Max (${format})`, result.text.includes('Max'));
+  }
+  expectations.verify();
+}
+
+export const scenarios: Scenario[] = [
+  { name: 'context-control', description: 'Same question answered under four context strategies', run: demonstrateContextControl },
+  { name: 'context-limits', description: 'How much of the history fits each strategy', run: demonstrateContextLimits },
+  { name: 'rolling-summary', description: 'Older turns folded into a cached, incrementally updated summary', run: demonstrateRollingSummary },
+  { name: 'context-retrieval', description: 'Turns most similar to the question retrieved ahead of the recent window', run: demonstrateSemanticRetrieval },
+  { name: 'importance-classification', description: 'Unlabeled turns rated by heuristics and a classifier agent, with a manual override', run: demonstrateImportanceClassification },
+  { name: 'context-formats', description: 'Each strategy serialized as plain text, XML events, YAML and JSON', run: demonstrateContextFormats },
+  { name: 'context-budget', description: 'A long support thread packed into a model\'s token budget', run: demonstrateTokenBudget },
+];
+
 async function main() {
+  console.log('🎯 Factor 3: Own Your Context Window');
+  console.log('====================================');
+
   console.log('\n✨ Factor 3 demonstrates explicit control over context windows');
   console.log('   - You decide what information the LLM sees');
   console.log('   - Different context strategies = different responses');
   console.log('   - Context windows are limited, valuable resources');
   console.log('   - Explicit control enables debugging and optimization\n');
 
-  await demonstrateContextControl();
-  await demonstrateContextLimits();
+  for (const scenario of scenarios) {
+    await scenario.run();
+  }
 
   console.log(`\n${'='.repeat(60)}`);
   console.log('🎉 Factor 3 Demo Complete!');
@@ -247,6 +547,10 @@ async function main() {
   console.log('   ✅ Context windows are limited - choose wisely');
   console.log('   ✅ Enables debugging by examining exact context contents');
   console.log('   ✅ Optimize for relevance vs recency vs importance');
+
+  usageTracker.printSummary();
 }
 
-main().catch(console.error);
+if (isMainModule(import.meta.url)) {
+  main().catch(console.error);
+}
@@ -0,0 +1,94 @@
+import { stringify as stringifyYaml } from 'yaml';
+
+import type { ConversationTurn } from './context-manager';
+import { formatSummary, type RollingSummary } from './summarizer';
+
+// 🧾 CONTEXT SERIALIZATION
+// Strategies decide which turns the model sees; a serializer decides how they are written down. The same
+// entries cost a different number of tokens, and may be answered differently, in each format.
+
+// Why a turn was picked, shown as a tag: [IMPORTANT] / [RELEVANT] in the plain format
+export type TurnTag = 'important' | 'relevant';
+
+export type ContextEntry =
+  | { kind: 'turn'; turn: ConversationTurn; tag?: TurnTag }
+  | { kind: 'summary'; summary: RollingSummary };
+
+export interface ContextSerializer {
+  name: ContextFormat;
+  // Entries arrive in the order they are to be shown; never called with none
+  serialize(entries: ContextEntry[]): string;
+}
+
+// "User: ... Assistant: ..." blocks separated by blank lines; the format factor 03 has always used
+export const plainSerializer: ContextSerializer = {
+  name: 'plain',
+  serialize: entries => entries
+    .map(entry => entry.kind === 'summary'
+      ? formatSummary(entry.summary)
+      : `${entry.tag ? `[${entry.tag.toUpperCase()}] ` : ''}User: ${entry.turn.user}\nAssistant: ${entry.turn.assistant}`)
+    .join('\n\n'),
+};
+
+// Long lines are not folded, so every message stays on one line
+const YAML_OPTIONS = { lineWidth: 0 };
+
+const escapeXml = (text: string) => text.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;');
+
+// One tag per event, as the 12-factor docs recommend, with structured fields as YAML inside the tag
+export const xmlSerializer: ContextSerializer = {
+  name: 'xml',
+  serialize: entries => entries
+    .map(entry => {
+      if (entry.kind === 'summary') {
+        const { summary, throughTurn } = entry.summary;
+        const body = stringifyYaml({ facts: summary.facts, open_questions: summary.openQuestions, decisions: summary.decisions }, YAML_OPTIONS).trimEnd();
+        return `<conversation_summary through_turn="${throughTurn}">\n${escapeXml(body)}\n</conversation_summary>`;
+      }
+      const attributes = entry.tag ? ` tag="${entry.tag}"` : '';
+      return [
+        `<user_message${attributes}>\n${escapeXml(entry.turn.user)}\n</user_message>`,
+        `<assistant_message>\n${escapeXml(entry.turn.assistant)}\n</assistant_message>`,
+      ].join('\n');
+    })
+    .join('\n\n'),
+};
+
+// The entries as one document: the summary, if any, then the turns
+function toDocument(entries: ContextEntry[]) {
+  const summary = entries.find(entry => entry.kind === 'summary')?.summary;
+  const turns = entries.flatMap(entry =>
+    entry.kind === 'turn' ? [{ user: entry.turn.user, assistant: entry.turn.assistant, ...(entry.tag && { tag: entry.tag }) }] : []);
+
+  return {
+    ...(summary && { summary: { throughTurn: summary.throughTurn, ...summary.summary } }),
+    turns,
+  };
+}
+
+export const yamlSerializer: ContextSerializer = {
+  name: 'yaml',
+  serialize: entries => stringifyYaml(toDocument(entries), YAML_OPTIONS).trimEnd(),
+};
+
+// Compact JSON, without indentation
+export const jsonSerializer: ContextSerializer = {
+  name: 'json',
+  serialize: entries => JSON.stringify(toDocument(entries)),
+};
+
+export const CONTEXT_SERIALIZERS = {
+  plain: plainSerializer,
+  xml: xmlSerializer,
+  yaml: yamlSerializer,
+  json: jsonSerializer,
+} as const;
+
+export type ContextFormat = keyof typeof CONTEXT_SERIALIZERS;
+
+export function contextSerializer(format: string): ContextSerializer {
+  if (!Object.hasOwn(CONTEXT_SERIALIZERS, format)) {
+    throw new Error(`Invalid context format "${format}". Expected one of: ${Object.keys(CONTEXT_SERIALIZERS).join(', ')}`);
+  }
+  return CONTEXT_SERIALIZERS[format as ContextFormat];
+}
@@ -0,0 +1,113 @@
+import { Agent } from '@mastra/core/agent';
+import { z } from 'zod';
+
+import { modelFor } from '../model';
+import { traceAgentCall } from '../trace';
+import type { ConversationTurn } from './context-manager';
+
+// 📜 ROLLING SUMMARIES
+// Turns that leave the recent window are not dropped but folded into a structured summary by a summarizer
+// agent. Each update sends only the current summary and the turns that aged out since the last one, so
+// the cost of an update does not grow with the thread, and between updates the summary is served from cache.
+
+export const conversationSummarySchema = z.object({
+  facts: z.array(z.string()),
+  openQuestions: z.array(z.string()),
+  decisions: z.array(z.string()),
+});
+
+export type ConversationSummary = z.infer<typeof conversationSummarySchema>;
+
+const SUMMARIZER_INSTRUCTIONS = `You summarize conversations for an assistant that can only see the last few turns.
+
+You receive the current summary and the turns that have just left the assistant's view. Return the complete, updated summary:
+- facts: what the user has told us and what is known to be true
+- openQuestions: questions and problems that are not resolved yet
+- decisions: what has been agreed, promised or decided
+
+Keep every item of the current summary that is still true, remove open questions that have since been answered, and merge duplicates. Keep names, ids, numbers and dates exactly as written. Write one short sentence per item.`;
+
+export function createSummarizerAgent() {
+  return new Agent({
+    name: 'ContextSummarizer',
+    instructions: SUMMARIZER_INSTRUCTIONS,
+    model: modelFor('ContextSummarizer'),
+  });
+}
+
+export interface RollingSummary {
+  summary: ConversationSummary;
+  // Id of the newest turn folded into the summary; 0 before the first update
+  throughTurn: number;
+}
+
+const formatTurns = (turns: ConversationTurn[]) =>
+  turns.map(turn => `Turn ${turn.id}\nUser: ${turn.user}\nAssistant: ${turn.assistant}`).join('\n\n');
+
+const EMPTY_SUMMARY: RollingSummary = { summary: { facts: [], openQuestions: [], decisions: [] }, throughTurn: 0 };
+
+// One summarizer per conversation: the cached summary is keyed by turn id, which only means something
+// within the conversation it was built from
+export class RollingSummarizer {
+  private current: RollingSummary = EMPTY_SUMMARY;
+  private updateCount = 0;
+  private conversation?: object;
+
+  constructor(private readonly agent: Agent = createSummarizerAgent()) {}
+
+  // Called by the ContextManager that owns this summarizer
+  bind(conversation: object) {
+    if (this.conversation && this.conversation !== conversation) {
+      throw new Error('This RollingSummarizer already summarizes another conversation. Give each ContextManager its own');
+    }
+    this.conversation = conversation;
+  }
+
+  // Summary of the given turns, oldest first. Only turns newer than the last update reach the summarizer;
+  // when there are none, the cached summary is returned without a model call. When the turns end before the
+  // cached summary does (the recent window grew), it would repeat turns now shown verbatim, so it is rebuilt.
+  async summarize(turns: ConversationTurn[]): Promise<RollingSummary> {
+    const lastTurn = turns.at(-1)?.id ?? 0;
+    if (lastTurn < this.current.throughTurn) this.current = EMPTY_SUMMARY;
+
+    const newTurns = turns.filter(turn => turn.id > this.current.throughTurn);
+    if (newTurns.length === 0) return this.current;
+
+    const message = [
+      'Current summary:',
+      this.current.throughTurn === 0 ? '(none yet)' : JSON.stringify(this.current.summary, undefined, 2),
+      '',
+      'Turns to fold in:',
+      formatTurns(newTurns),
+    ].join('\n');
+    const range = `turns ${newTurns[0]!.id}-${newTurns.at(-1)!.id}`;
+    const result = await traceAgentCall(this.agent.name, `Fold ${range} into the summary`, () =>
+      this.agent.generateVNext(message, { output: conversationSummarySchema }));
+
+    this.current = { summary: result.object, throughTurn: newTurns.at(-1)!.id };
+    this.updateCount++;
+    return this.current;
+  }
+
+  // The cached summary, as of the last update
+  get latest(): RollingSummary {
+    return this.current;
+  }
+
+  // Summarizer calls made so far
+  get updates(): number {
+    return this.updateCount;
+  }
+}
+
+export function formatSummary({ summary, throughTurn }: RollingSummary): string {
+  const section = (title: string, items: string[]) =>
+    `${title}:\n${items.length > 0 ? items.map(item => `- ${item}`).join('\n') : '- none'}`;
+
+  return [
+    `[SUMMARY of turns 1-${throughTurn}]`,
+    section('Facts', summary.facts),
+    section('Open questions', summary.openQuestions),
+    section('Decisions', summary.decisions),
+  ].join('\n');
+}
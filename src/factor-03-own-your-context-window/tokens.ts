@@ -0,0 +1,12 @@
+import { getEncoding } from 'js-tiktoken';
+
+// 🔢 TOKEN COUNTING
+// Context limits are set in tokens, so context is measured in tokens rather than characters or lines.
+// o200k_base is the tokenizer of OpenAI's current models. Mistral and Llama tokenize a little differently,
+// so for them the counts are close estimates; the reserved output budget leaves the headroom.
+
+const encoding = getEncoding('o200k_base');
+
+export function countTokens(text: string): number {
+  return encoding.encode(text).length;
+}
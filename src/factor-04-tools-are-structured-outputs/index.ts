@@ -3,10 +3,10 @@
 import { Agent } from '@mastra/core/agent';
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { model } from '../model';
-
-console.log('🎯 Factor 4: Tools are Structured Outputs');
-console.log('==========================================');
+import { Expectations, isMainModule, toolCallsOf, type Scenario } from '../harness';
+import { modelFor } from '../model';
+import { traceAgentCall, traceTools } from '../trace';
+import { usageTracker } from '../usage';
 
 // 🏗️ STRUCTURED TOOL DEFINITIONS
 // Each tool has explicit input and output schemas
@@ -27,8 +27,6 @@ const weatherTool = createTool({
   }),
   description: 'Get weather information for a city',
   execute: async ({ context }) => {
-    console.log(`[🌤️ Weather Tool] Getting weather for ${context.city} in ${context.unit}`);
-
     // Deterministic structured output
     function getBaseTemp(city: string): number {
       const cityName = city.toLowerCase();
@@ -76,8 +74,6 @@ const userProfileTool = createTool({
   }),
   description: 'Get detailed user profile information',
   execute: async ({ context }) => {
-    console.log(`[👤 Profile Tool] Loading profile for user ${context.userId}`);
-
     // Deterministic structured output
     return {
       user: {
@@ -119,8 +115,6 @@ const searchTool = createTool({
   }),
   description: 'Search for relevant documents',
   execute: async ({ context }) => {
-    console.log(`[🔍 Search Tool] Searching for "${context.query}" (limit: ${context.limit})`);
-
     // Deterministic structured output
     const results = [
       {
@@ -152,6 +146,8 @@ const searchTool = createTool({
 });
 
 // 🤖 Create agent with structured tools
+const structuredTools = { weatherTool, userProfileTool, searchTool };
+
 const agent = new Agent({
   name: 'StructuredAgent',
   instructions: `You are a helpful assistant with access to structured tools.
@@ -166,8 +162,8 @@ Available tools:
 - weather: Get weather information (returns temperature, condition, humidity, etc.)
 - user-profile: Get user profile (returns user info, preferences, metadata)
 - search: Search for documents (returns array of results with title, url, snippet, score)`,
-  model,
-  tools: { weatherTool, userProfileTool, searchTool },
+  model: modelFor('StructuredAgent'),
+  tools: traceTools(structuredTools),
 });
 
 // 📊 STRUCTURED OUTPUT PROCESSING
@@ -264,6 +260,8 @@ async function demonstrateStructuredTools() {
   console.log('🧪 Testing Structured Tool Outputs');
   console.log(`${'='.repeat(60)}`);
 
+  const expectations = new Expectations();
+
   for (const [index, scenario] of scenarios.entries()) {
     console.log(`\n${'─'.repeat(50)}`);
     console.log(`📍 Scenario ${index + 1}: ${scenario.name}`);
@@ -272,22 +270,30 @@ async function demonstrateStructuredTools() {
     console.log(`\n❓ Question: "${scenario.question}"`);
     console.log('🧠 Processing...');
 
-    const result = await agent.generateVNext(scenario.question);
+    const result = await traceAgentCall(agent.name, scenario.question, () => agent.generateVNext(scenario.question));
     console.log(`\n💬 Agent Response: ${result.text}`);
 
     // Find the expected tool result
-    const toolResult = result.toolResults?.find(tr => tr.toolName === scenario.expectedTool);
+    const toolCall = toolCallsOf(result, structuredTools).find(call => call.tool === scenario.expectedTool);
 
-    if (toolResult) {
+    if (toolCall) {
       console.log(`\n[🏗️ Raw Structured Output from ${scenario.expectedTool}]:`);
-      console.log(JSON.stringify(toolResult.result, null, 2));
+      console.log(JSON.stringify(toolCall.result, null, 2));
 
       // Process the structured output
-      scenario.processor(toolResult.result as unknown);
+      scenario.processor(toolCall.result);
     } else {
       console.log(`\n⚠️ Expected tool '${scenario.expectedTool}' was not called`);
     }
+
+    // The output must match the tool's declared schema, so it can be consumed without guessing
+    const outputSchema = Object.values(structuredTools).find(tool => tool.id === scenario.expectedTool)?.outputSchema;
+    console.log('');
+    expectations.check('Expected Tool Called', toolCall !== undefined, `${scenario.expectedTool} was not called`);
+    expectations.check('Output Matches Schema', toolCall !== undefined && outputSchema?.safeParse(toolCall.result).success === true);
   }
+
+  expectations.verify();
 }
 
 // 🔍 SCHEMA VALIDATION DEMONSTRATION
@@ -313,7 +319,15 @@ async function demonstrateSchemaValidation() {
   console.log('   ✅ Reliable data flow');
 }
 
+export const scenarios: Scenario[] = [
+  { name: 'structured-tools', description: 'Weather, profile and search tools with typed outputs', run: demonstrateStructuredTools },
+  { name: 'schema-validation', description: 'Invalid tool inputs rejected by their schemas', run: demonstrateSchemaValidation },
+];
+
 async function main() {
+  console.log('🎯 Factor 4: Tools are Structured Outputs');
+  console.log('==========================================');
+
   console.log('\n✨ Factor 4 demonstrates tools as structured outputs');
   console.log('   - Tools have explicit input/output schemas');
   console.log('   - LLM generates structured tool calls');
@@ -321,8 +335,9 @@ async function main() {
   console.log('   - Downstream processing is reliable');
   console.log('   - Schema validation ensures data integrity\n');
 
-  await demonstrateStructuredTools();
-  await demonstrateSchemaValidation();
+  for (const scenario of scenarios) {
+    await scenario.run();
+  }
 
   console.log(`\n${'='.repeat(60)}`);
   console.log('🎉 Factor 4 Demo Complete!');
@@ -333,6 +348,10 @@ async function main() {
   console.log('   ✅ Schema validation prevents runtime errors');
   console.log('   ✅ Type safety improves developer experience');
   console.log('   ✅ Predictable data flow across the application');
+
+  usageTracker.printSummary();
 }
 
-main().catch(console.error);
+if (isMainModule(import.meta.url)) {
+  main().catch(console.error);
+}
@@ -5,10 +5,11 @@ import { Memory } from '@mastra/memory';
 import { LibSQLStore } from '@mastra/libsql';
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { model } from '../model';
-
-console.log('🎯 Factor 5: Unify Execution State and Business State');
-console.log('====================================================');
+import { Expectations, isMainModule, toolCallsOf, type Scenario } from '../harness';
+import { inspectRequests, messageTexts, printProviderRequest } from '../inspect';
+import { modelFor } from '../model';
+import { traceAgentCall, traceTools } from '../trace';
+import { usageTracker } from '../usage';
 
 // 🗃️ UNIFIED STATE CONTAINER
 // Single memory instance manages both execution state and business state
@@ -33,8 +34,6 @@ const savePreferenceTool = createTool({
   }),
   description: 'Save a user preference to business state',
   execute: async ({ context }) => {
-    console.log(`[💾 Save Preference] ${context.key} = ${context.value}`);
-
     // In a real app, this would save to a database
     // Here we simulate business state storage
     return {
@@ -79,8 +78,6 @@ const calculateTool = createTool({
       }
     }
 
-    console.log(`[🔢 Calculate] ${context.a} ${context.operation} ${context.b} = ${result}`);
-
     return {
       operation: context.operation,
       operands: [context.a, context.b],
@@ -93,6 +90,8 @@ const calculateTool = createTool({
 // 🤖 UNIFIED STATE AGENT
 // Single agent with unified memory for both execution and business state
 
+const stateTools = { savePreferenceTool, calculateTool };
+
 const agent = new Agent({
   name: 'UnifiedStateAgent',
   instructions: `You are a helpful assistant that manages both execution state and business state in a unified way.
@@ -111,9 +110,9 @@ When interacting:
 2. Track tool usage and results (execution state)
 3. Reference both types of state when relevant
 4. Be specific about what you remember and why`,
-  model,
+  model: modelFor('UnifiedStateAgent'),
   memory, // Single unified memory container
-  tools: { savePreferenceTool, calculateTool },
+  tools: traceTools(stateTools),
 });
 
 // 🔗 CONSISTENT STATE IDENTIFIERS
@@ -122,6 +121,11 @@ When interacting:
 const threadId = 'factor05-unified-demo';
 const resourceId = 'demo-user';
 
+// Every call goes through the same thread, so state carries over between calls
+function askAgent(message: string) {
+  return traceAgentCall(agent.name, message, () => agent.generateVNext(message, { threadId, resourceId }));
+}
+
 // 📊 STATE TRACKING UTILITIES
 // Helper functions to understand what's in our unified state
 
@@ -166,22 +170,26 @@ async function demonstrateUnifiedState() {
     {
       name: 'Setting Business State',
       message: "Hi! My name is Sarah and I prefer dark theme. Please save my theme preference.",
-      description: 'Storing user identity and preferences in unified state'
+      description: 'Storing user identity and preferences in unified state',
+      expectedTools: ['save-preference']
     },
     {
       name: 'Execution State with Tools',
       message: "Can you calculate 15 + 27 for me?",
-      description: 'Tool execution results stored in same unified state'
+      description: 'Tool execution results stored in same unified state',
+      expectedTools: ['calculate']
     },
     {
       name: 'State Retrieval',
       message: "What's my name and what calculation did we just do?",
-      description: 'Retrieving both business and execution state from unified container'
+      description: 'Retrieving both business and execution state from unified container',
+      expectedTools: []
     },
     {
       name: 'Cross-State Reference',
       message: "Calculate 42 * 8 and tell me what theme I prefer",
-      description: 'Demonstrating access to both state types in one interaction'
+      description: 'Demonstrating access to both state types in one interaction',
+      expectedTools: ['calculate']
     }
   ];
 
@@ -189,6 +197,8 @@ async function demonstrateUnifiedState() {
   console.log('🧪 Testing Unified State Management');
   console.log(`${'='.repeat(60)}`);
 
+  const expectations = new Expectations();
+
   for (const [index, scenario] of scenarios.entries()) {
     console.log(`\n${'─'.repeat(50)}`);
     console.log(`📍 Scenario ${index + 1}: ${scenario.name}`);
@@ -202,24 +212,27 @@ async function demonstrateUnifiedState() {
     await captureStateSnapshot(`Before ${scenario.name}`);
 
     // Execute with unified state
-    const result = await agent.generateVNext(scenario.message, {
-      threadId,
-      resourceId,
-    });
+    const result = await askAgent(scenario.message);
 
     console.log(`\n💬 Agent Response: ${result.text}`);
 
     // Show tool results if any
-    if (result.toolResults && result.toolResults.length > 0) {
+    const toolCalls = toolCallsOf(result, stateTools);
+    if (toolCalls.length > 0) {
       console.log('\n[🔧 Tool Results]:');
-      for (const toolResult of result.toolResults) {
-        console.log(`  📦 ${toolResult.toolName}:`, JSON.stringify(toolResult.result, null, 2));
+      for (const toolCall of toolCalls) {
+        console.log(`  📦 ${toolCall.tool}:`, JSON.stringify(toolCall.result, null, 2));
       }
     }
 
+    console.log('');
+    expectations.equal('Tool Calls', toolCalls.map(toolCall => toolCall.tool), scenario.expectedTools);
+
     // Capture state after
     await captureStateSnapshot(`After ${scenario.name}`);
   }
+
+  expectations.verify();
 }
 
 // 🔍 UNIFIED STATE BENEFITS DEMONSTRATION
@@ -265,40 +278,51 @@ async function demonstrateStateConsistency() {
 
   // First interaction - set business state
   console.log('\n1️⃣ First Interaction:');
-  const result1 = await agent.generateVNext("My name is Alex and I work in engineering", {
-    threadId,
-    resourceId,
-  });
+  const result1 = await askAgent("My name is Alex and I work in engineering");
   console.log(`   Response: ${result1.text}`);
 
   // Second interaction - set more business state
   console.log('\n2️⃣ Second Interaction:');
-  const result2 = await agent.generateVNext("Save my language preference as Spanish", {
-    threadId,
-    resourceId,
-  });
+  const result2 = await askAgent("Save my language preference as Spanish");
   console.log(`   Response: ${result2.text}`);
 
   // Third interaction - execution state
   console.log('\n3️⃣ Third Interaction:');
-  const result3 = await agent.generateVNext("Calculate 100 divided by 5", {
-    threadId,
-    resourceId,
-  });
+  const result3 = await askAgent("Calculate 100 divided by 5");
   console.log(`   Response: ${result3.text}`);
 
   // Fourth interaction - retrieve all state
   console.log('\n4️⃣ Fourth Interaction (State Retrieval):');
-  const result4 = await agent.generateVNext("Tell me my name, my language preference, and what calculation we just did", {
-    threadId,
-    resourceId,
-  });
+  const retrievalQuestion = "Tell me my name, my language preference, and what calculation we just did";
+  const { result: result4, requests } = await inspectRequests(() => askAgent(retrievalQuestion));
   console.log(`   Response: ${result4.text}`);
 
+  // Memory is not a side channel: the earlier turns and tool results are messages in the request itself
+  const [request] = requests;
+  if (request) printProviderRequest(request, { schemas: false });
+
+  const expectations = new Expectations();
+  const userMessages = request ? messageTexts(request, 'user') : [];
+  const toolResults = request ? messageTexts(request, 'tool') : [];
+  console.log('');
+  expectations.check('Earlier Turns Sent from Memory', userMessages.some(text => text.includes('My name is Alex')));
+  expectations.check('Tool Results Sent from Memory', toolResults.some(text => text.includes('savePreferenceTool')));
+  expectations.check('Question Sent Last', userMessages.at(-1) === retrievalQuestion);
+  expectations.verify();
+
   console.log('\n✅ Unified state successfully maintained across multiple interactions!');
 }
 
+export const scenarios: Scenario[] = [
+  { name: 'unified-state', description: 'Preferences and calculations kept in one memory', run: demonstrateUnifiedState },
+  { name: 'state-benefits', description: 'Why a single state container helps', run: demonstrateStateBenefits },
+  { name: 'state-consistency', description: 'Recall of earlier business state from memory', run: demonstrateStateConsistency },
+];
+
 async function main() {
+  console.log('🎯 Factor 5: Unify Execution State and Business State');
+  console.log('====================================================');
+
   console.log('\n✨ Factor 5 demonstrates unified execution and business state');
   console.log('   - Single memory container for all state');
   console.log('   - Business state: user info, preferences, domain data');
@@ -306,9 +330,9 @@ async function main() {
   console.log('   - Consistent access patterns for both state types');
   console.log('   - No state synchronization complexity\n');
 
-  await demonstrateUnifiedState();
-  await demonstrateStateBenefits();
-  await demonstrateStateConsistency();
+  for (const scenario of scenarios) {
+    await scenario.run();
+  }
 
   console.log(`\n${'='.repeat(60)}`);
   console.log('🎉 Factor 5 Demo Complete!');
@@ -320,6 +344,10 @@ async function main() {
   console.log('   ✅ Simplified debugging and inspection');
   console.log('   ✅ No state synchronization issues');
   console.log('   ✅ Predictable state evolution over time');
+
+  usageTracker.printSummary();
 }
 
-main().catch(console.error);
+if (isMainModule(import.meta.url)) {
+  main().catch(console.error);
+}
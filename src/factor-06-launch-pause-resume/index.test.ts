@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseRequest } from './index';
+
+describe('parseRequest', () => {
+  it.each([
+    ['Add 15 and 25', [15, 25], 'add'],
+    ['multiply 6 by 7', [6, 7], 'multiply'],
+    ['100 / 4', [100, 4], 'divide'],
+    ['Subtract 3 from 10', [3, 10], 'subtract'],
+  ])('parses "%s"', (input, numbers, operation) => {
+    expect(parseRequest(input)).toEqual({ numbers, operation, needsClarification: false });
+  });
+
+  it('takes the first operation in order of precedence', () => {
+    expect(parseRequest('add or multiply 2 and 3').operation).toBe('add');
+  });
+
+  it('needs clarification without two numbers', () => {
+    expect(parseRequest('add 5 to something')).toEqual({ numbers: [5], operation: 'add', needsClarification: true });
+  });
+
+  it('needs clarification without an operation', () => {
+    expect(parseRequest('do something with 5 and 10')).toEqual({ numbers: [5, 10], operation: 'unknown', needsClarification: true });
+  });
+});
@@ -1,11 +1,7 @@
 // See: https://github.com/humanlayer/12-factor-agents/blob/main/content/factor-6-launch-pause-resume.md
 
-console.log('🎯 Factor 6: Launch/Pause/Resume with Simple APIs');
-console.log('==================================================');
-console.log('Demonstration: Simple launch/pause/resume workflow APIs');
-console.log('Key principle: Workflows should be easily launched, paused, and resumed with minimal setup');
-console.log('Reference: https://github.com/humanlayer/12-factor-agents/blob/main/content/factor-6-launch-pause-resume.md');
-console.log('');
+import { Expectations, isMainModule, type Scenario } from '../harness';
+import { tracer } from '../trace';
 
 // 💾 STATE MANAGEMENT
 // Simple in-memory state storage for demo purposes
@@ -56,6 +52,23 @@ function loadWorkflowState(runId: string): WorkflowState | null {
   return workflowStates.get(runId) || null;
 }
 
+// 🔍 REQUEST PARSING
+// Simple parsing logic: the numbers in the text and the first operation word or symbol found
+
+export function parseRequest(userInput: string): ClarificationInput {
+  const text = userInput.toLowerCase();
+  const numberMatches = text.match(/\d+/g);
+  const numbers = numberMatches ? numberMatches.map(Number) : [];
+
+  let operation = 'unknown';
+  if (text.includes('add') || text.includes('+')) operation = 'add';
+  else if (text.includes('multiply') || text.includes('*')) operation = 'multiply';
+  else if (text.includes('divide') || text.includes('/')) operation = 'divide';
+  else if (text.includes('subtract') || text.includes('-')) operation = 'subtract';
+
+  return { numbers, operation, needsClarification: numbers.length < 2 || operation === 'unknown' };
+}
+
 // ⚙️ WORKFLOW STEPS
 // Simple steps that demonstrate suspension points
 
@@ -68,26 +81,14 @@ const steps: WorkflowStep[] = [
       const { userInput } = input as { userInput: string };
       console.log(`🔍 [Parse Request] Input: "${userInput}"`);
 
-      // Simple parsing logic
-      const text = userInput.toLowerCase();
-      const numberMatches = text.match(/\d+/g);
-      const numbers = numberMatches ? numberMatches.map(Number) : [];
-
-      let operation = 'unknown';
-      if (text.includes('add') || text.includes('+')) operation = 'add';
-      else if (text.includes('multiply') || text.includes('*')) operation = 'multiply';
-      else if (text.includes('divide') || text.includes('/')) operation = 'divide';
-      else if (text.includes('subtract') || text.includes('-')) operation = 'subtract';
-
-      const needsClarification = numbers.length < 2 || operation === 'unknown';
+      const { numbers, operation, needsClarification } = parseRequest(userInput);
 
       console.log(`    Numbers: [${numbers.join(', ')}], Operation: ${operation}`);
       console.log(`    Needs clarification: ${needsClarification}`);
 
+      // Parsing never suspends; the clarification step decides, so resuming continues after it
       return {
-        output: { numbers, operation, needsClarification, originalInput: userInput },
-        suspend: needsClarification,
-        reason: needsClarification ? 'clarification_needed' : undefined
+        output: { numbers, operation, needsClarification, originalInput: userInput }
       };
     }
   },
@@ -180,6 +181,14 @@ const steps: WorkflowStep[] = [
   }
 ];
 
+// Runs a single step and reports it to the trace
+async function executeStep(step: WorkflowStep, input: unknown) {
+  tracer.emit({ type: 'step.started', step: step.id, input });
+  const stepResult = await step.execute(input);
+  tracer.emit({ type: 'step.finished', step: step.id, output: stepResult.output });
+  return stepResult;
+}
+
 // 🚀 SIMPLE LAUNCH API
 async function launchWorkflow(input: string, runId: string): Promise<unknown> {
   console.log(`🚀 [Launch] Starting workflow: ${runId}`);
@@ -203,7 +212,7 @@ async function launchWorkflow(input: string, runId: string): Promise<unknown> {
     for (const step of steps) {
       workflowState.currentStep = step.id;
 
-      const stepResult = await step.execute(currentInput);
+      const stepResult = await executeStep(step, currentInput);
       workflowState.stepData[step.id] = stepResult.output;
 
       if (stepResult.suspend) {
@@ -212,7 +221,7 @@ async function launchWorkflow(input: string, runId: string): Promise<unknown> {
         workflowState.suspendReason = stepResult.reason;
         saveWorkflowState(workflowState);
 
-        console.log(`⏸️  [Launch] Workflow suspended: ${stepResult.reason}`);
+        tracer.emit({ type: 'workflow.suspended', runId, step: step.id, reason: stepResult.reason ?? 'unknown' });
         return { suspended: true, reason: stepResult.reason, runId, currentStep: step.id };
       }
 
@@ -229,6 +238,7 @@ async function launchWorkflow(input: string, runId: string): Promise<unknown> {
   } catch (error) {
     workflowState.status = 'failed';
     saveWorkflowState(workflowState);
+    tracer.emit({ type: 'error', source: runId, message: error instanceof Error ? error.message : String(error) });
     throw error;
   }
 }
@@ -266,7 +276,7 @@ async function resumeWorkflow(runId: string, resumeData: Record<string, unknown>
 
       workflowState.currentStep = step.id;
 
-      const stepResult = await step.execute(currentInput);
+      const stepResult = await executeStep(step, currentInput);
       workflowState.stepData[step.id] = stepResult.output;
 
       if (stepResult.suspend) {
@@ -275,7 +285,7 @@ async function resumeWorkflow(runId: string, resumeData: Record<string, unknown>
         workflowState.suspendReason = stepResult.reason;
         saveWorkflowState(workflowState);
 
-        console.log(`⏸️  [Resume] Workflow suspended again: ${stepResult.reason}`);
+        tracer.emit({ type: 'workflow.suspended', runId, step: step.id, reason: stepResult.reason ?? 'unknown' });
         return { suspended: true, reason: stepResult.reason, runId, currentStep: step.id };
       }
 
@@ -292,6 +302,7 @@ async function resumeWorkflow(runId: string, resumeData: Record<string, unknown>
   } catch (error) {
     workflowState.status = 'failed';
     saveWorkflowState(workflowState);
+    tracer.emit({ type: 'error', source: runId, message: error instanceof Error ? error.message : String(error) });
     throw error;
   }
 }
@@ -302,13 +313,16 @@ interface LaunchResumeScenario {
   description: string;
   input: string;
   resumeData?: Record<string, unknown>;
+  expectedSuspension?: string;
+  expectedResult: number;
 }
 
-const scenarios: LaunchResumeScenario[] = [
+const launchResumeScenarios: LaunchResumeScenario[] = [
   {
     name: 'Simple Completion',
     description: 'Workflow completes without suspension',
-    input: 'add 5 and 3'
+    input: 'add 5 and 3',
+    expectedResult: 8
   },
   {
     name: 'Clarification Needed',
@@ -318,7 +332,9 @@ const scenarios: LaunchResumeScenario[] = [
       finalNumbers: [10, 20],
       finalOperation: 'add',
       clarificationProvided: true
-    }
+    },
+    expectedSuspension: 'clarification_needed',
+    expectedResult: 30
   },
   {
     name: 'Approval Required',
@@ -328,7 +344,9 @@ const scenarios: LaunchResumeScenario[] = [
       result: 750,
       explanation: '25 multiply 30 = 750',
       needsApproval: false
-    }
+    },
+    expectedSuspension: 'approval_needed',
+    expectedResult: 750
   }
 ];
 
@@ -338,7 +356,9 @@ async function demonstrateScenarios() {
   console.log('🎭 Launch/Pause/Resume Scenarios');
   console.log(`${'='.repeat(60)}`);
 
-  for (const [index, scenario] of scenarios.entries()) {
+  const expectations = new Expectations();
+
+  for (const [index, scenario] of launchResumeScenarios.entries()) {
     console.log(`\n${'─'.repeat(50)}`);
     console.log(`📍 Scenario ${index + 1}: ${scenario.name}`);
     console.log(`📝 ${scenario.description}`);
@@ -375,10 +395,19 @@ async function demonstrateScenarios() {
       const finalState = loadWorkflowState(runId);
       console.log(`\n📊 Final State: ${finalState?.status} (${finalState?.suspendReason || 'no suspension'})`);
 
+      const approval = finalState?.stepData.approval as { finalResult?: number } | undefined;
+      console.log('');
+      expectations.equal('Suspension Reason', finalState?.suspendReason, scenario.expectedSuspension);
+      expectations.equal('Final Status', finalState?.status, 'completed');
+      expectations.equal('Final Result', approval?.finalResult, scenario.expectedResult);
+
     } catch (error) {
       console.error(`❌ Error in scenario ${scenario.name}:`, error instanceof Error ? error.message : error);
+      expectations.check('Scenario Completed', false, error instanceof Error ? error.message : String(error));
     }
   }
+
+  expectations.verify();
 }
 
 // 🔍 STATE INSPECTION DEMO
@@ -446,7 +475,20 @@ async function demonstrateBenefits() {
   console.log('   💾 Workflows that need to wait for external systems');
 }
 
+export const scenarios: Scenario[] = [
+  { name: 'launch-resume', description: 'Workflows that suspend for input and resume', run: demonstrateScenarios },
+  { name: 'state-inspection', description: 'Saved workflow state between pause and resume', run: demonstrateStateInspection },
+  { name: 'benefits', description: 'Summary of launch/pause/resume benefits', run: demonstrateBenefits },
+];
+
 async function main() {
+  console.log('🎯 Factor 6: Launch/Pause/Resume with Simple APIs');
+  console.log('==================================================');
+  console.log('Demonstration: Simple launch/pause/resume workflow APIs');
+  console.log('Key principle: Workflows should be easily launched, paused, and resumed with minimal setup');
+  console.log('Reference: https://github.com/humanlayer/12-factor-agents/blob/main/content/factor-6-launch-pause-resume.md');
+  console.log('');
+
   console.log('\n✨ Factor 6 demonstrates simple launch/pause/resume workflow APIs');
   console.log('   - Workflows can be launched with minimal setup');
   console.log('   - Intelligent suspension at logical business points');
@@ -454,9 +496,9 @@ async function main() {
   console.log('   - State preservation across pause/resume cycles');
   console.log('   - Multiple suspension points supported\n');
 
-  await demonstrateScenarios();
-  await demonstrateStateInspection();
-  await demonstrateBenefits();
+  for (const scenario of scenarios) {
+    await scenario.run();
+  }
 
   console.log(`\n${'='.repeat(60)}`);
   console.log('🎉 Factor 6 Demo Complete!');
@@ -470,4 +512,6 @@ async function main() {
   console.log('   ✅ Efficient resource management');
 }
 
-main().catch(console.error);
+if (isMainModule(import.meta.url)) {
+  main().catch(console.error);
+}
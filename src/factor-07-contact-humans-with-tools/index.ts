@@ -3,10 +3,11 @@
 import { createTool } from '@mastra/core/tools';
 import { Agent } from '@mastra/core/agent';
 import { z } from 'zod';
-import { model } from '../model';
-
-console.log('🎯 Factor 7: Contact Humans with Tools');
-console.log('======================================');
+import { Expectations, isMainModule, toolCallsOf, type Scenario } from '../harness';
+import { inspectRequests, messageTexts, printProviderRequest } from '../inspect';
+import { modelFor } from '../model';
+import { traceAgentCall, traceTools } from '../trace';
+import { usageTracker } from '../usage';
 
 // 🧑‍🤝‍🧑 HUMAN TOOLS
 // Core concept: Human interaction treated as regular tools
@@ -116,6 +117,8 @@ const humanReviewTool = createTool({
 // 🤖 AGENT WITH HUMAN TOOLS
 // Agent that can use human tools just like any other tools
 
+const humanTools = { humanClarificationTool, humanApprovalTool, humanReviewTool };
+
 const agent = new Agent({
   name: 'HumanToolAgent',
   instructions: `You are an AI assistant that can interact with humans using tools.
@@ -131,8 +134,8 @@ Use these tools naturally when:
 3. You need human review of content or decisions
 
 Treat human tools the same way you treat other tools - call them when needed and use their responses to continue your work.`,
-  model,
-  tools: { humanClarificationTool, humanApprovalTool, humanReviewTool },
+  model: modelFor('HumanToolAgent'),
+  tools: traceTools(humanTools),
 });
 
 // 🎭 SIMULATED HUMAN RESPONSES
@@ -222,7 +225,7 @@ interface HumanToolScenario {
   expectedTools: string[];
 }
 
-const scenarios: HumanToolScenario[] = [
+const humanToolScenarios: HumanToolScenario[] = [
   {
     name: 'Clarification Request',
     description: 'Agent asks for clarification when request is unclear',
@@ -255,7 +258,9 @@ async function demonstrateScenarios() {
   console.log('🎭 Human Tools Integration Scenarios');
   console.log(`${'='.repeat(60)}`);
 
-  for (const [index, scenario] of scenarios.entries()) {
+  const expectations = new Expectations();
+
+  for (const [index, scenario] of humanToolScenarios.entries()) {
     console.log(`\n${'─'.repeat(50)}`);
     console.log(`📍 Scenario ${index + 1}: ${scenario.name}`);
     console.log(`📝 ${scenario.description}`);
@@ -265,23 +270,37 @@ async function demonstrateScenarios() {
     console.log('🤖 Agent processing request...');
 
     // Generate response using agent with human tools
-    const result = await agent.generateVNext(scenario.userRequest);
+    const { result, requests } = await inspectRequests(() =>
+      traceAgentCall(agent.name, scenario.userRequest, () => agent.generateVNext(scenario.userRequest)));
 
     console.log(`\n💬 Agent Response: ${result.text}`);
 
     // Show tool usage
-    if (result.toolResults && result.toolResults.length > 0) {
+    const toolCalls = toolCallsOf(result, humanTools);
+    if (toolCalls.length > 0) {
       console.log('\n[🔧 Human Tools Used]:');
-      for (const toolResult of result.toolResults) {
-        console.log(`  📦 ${toolResult.toolName}:`);
-        console.log(`     Result: ${JSON.stringify(toolResult.result, null, 2)}`);
+      for (const toolCall of toolCalls) {
+        console.log(`  📦 ${toolCall.tool}:`);
+        console.log(`     Result: ${JSON.stringify(toolCall.result, null, 2)}`);
       }
     } else {
       console.log('\n[ℹ️  No human tools used - request was clear enough]');
     }
 
+    console.log('');
+    expectations.equal('Tool Calls', toolCalls.map(toolCall => toolCall.tool), scenario.expectedTools);
+
+    // The human's answers go back to the model the same way any tool result does
+    const lastRequest = requests.at(-1);
+    if (index === 0 && lastRequest) printProviderRequest(lastRequest);
+    expectations.check('Human Tools Sent as Schemas', requests.every(request =>
+      request.tools.map(tool => tool.name).join(',') === Object.keys(humanTools).join(',') && request.tools.every(tool => tool.inputSchema)));
+    expectations.equal('Human Answers Sent Back', lastRequest ? messageTexts(lastRequest, 'tool').length : 0, toolCalls.length);
+
     console.log(`\n✅ Scenario completed - Human tools treated as regular tools`);
   }
+
+  expectations.verify();
 }
 
 // 💡 BENEFITS DEMONSTRATION
@@ -356,7 +375,16 @@ async function demonstrateToolComparison() {
   console.log('   📊 Human tools handle ambiguous/complex scenarios');
 }
 
+export const scenarios: Scenario[] = [
+  { name: 'human-tools', description: 'Agent calling clarification, approval and review tools', run: demonstrateScenarios },
+  { name: 'benefits', description: 'Why humans fit in as regular tools', run: demonstrateBenefits },
+  { name: 'tool-comparison', description: 'Human tools side by side with automated tools', run: demonstrateToolComparison },
+];
+
 async function main() {
+  console.log('🎯 Factor 7: Contact Humans with Tools');
+  console.log('======================================');
+
   console.log('\n✨ Factor 7 demonstrates human interaction as tools');
   console.log('   - Human tools use the same createTool() API as automated tools');
   console.log('   - Agents can call human tools naturally in their workflow');
@@ -364,9 +392,9 @@ async function main() {
   console.log('   - No special handling required for human vs automated tools');
   console.log('   - Seamless integration of human intelligence into agent workflows\n');
 
-  await demonstrateScenarios();
-  await demonstrateBenefits();
-  await demonstrateToolComparison();
+  for (const scenario of scenarios) {
+    await scenario.run();
+  }
 
   console.log(`\n${'='.repeat(60)}`);
   console.log('🎉 Factor 7 Demo Complete!');
@@ -378,6 +406,10 @@ async function main() {
   console.log('   ✅ Flexible human interaction patterns');
   console.log('   ✅ Scalable and composable human tools');
   console.log('   ✅ No special frameworks needed for human-in-the-loop');
+
+  usageTracker.printSummary();
 }
 
-main().catch(console.error);
+if (isMainModule(import.meta.url)) {
+  main().catch(console.error);
+}
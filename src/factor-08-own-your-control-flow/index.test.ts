@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+
+import { applyBusinessRules, validateInput } from './index';
+
+describe('validateInput', () => {
+  it('trims valid input', () => {
+    expect(validateInput('  Process this request  ')).toEqual({ isValid: true, cleanedData: 'Process this request', errors: [] });
+  });
+
+  it('rejects empty input', () => {
+    expect(validateInput('   ')).toEqual({ isValid: false, cleanedData: '', errors: ['Input cannot be empty'] });
+  });
+
+  it('rejects and truncates input over 500 characters', () => {
+    const result = validateInput('x'.repeat(501));
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual(['Input too long (max 500 characters)']);
+    expect(result.cleanedData).toHaveLength(500);
+  });
+});
+
+describe('applyBusinessRules', () => {
+  it.each([
+    ['Delete all user records', 'deletion-protection', 'high', true],
+    ['remove the old backups', 'deletion-protection', 'high', true],
+    ['Update the customer address', 'modification-review', 'medium', false],
+    ['MODIFY the settings', 'modification-review', 'medium', false],
+    ['Show the monthly report', 'standard-processing', 'low', false],
+  ])('classifies "%s"', (input, rule, riskLevel, needsApproval) => {
+    expect(applyBusinessRules(input)).toEqual({ businessRules: [rule], riskLevel, needsApproval });
+  });
+
+  it('treats deletion as the highest risk when several rules match', () => {
+    expect(applyBusinessRules('update then delete the table').riskLevel).toBe('high');
+  });
+});
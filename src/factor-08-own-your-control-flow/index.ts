@@ -2,13 +2,46 @@
 
 import { createStep, createWorkflow } from '@mastra/core/workflows';
 import { z } from 'zod';
-
-console.log('🎯 Factor 8: Own Your Control Flow');
-console.log('==================================');
+import { Expectations, isMainModule, type Scenario } from '../harness';
+import { traceWorkflowRun } from '../trace';
 
 // 🏗️ EXPLICIT CONTROL FLOW
 // Core concept: Developer owns and controls the execution flow
 
+// 📏 EXPLICIT RULES
+// Plain functions the steps call, so every decision can be read (and tested) without running a workflow
+
+type RiskLevel = 'low' | 'medium' | 'high';
+
+// Explicit validation logic - developer controls this
+export function validateInput(userInput: string): { isValid: boolean; cleanedData: string; errors: string[] } {
+  const errors: string[] = [];
+  let cleanedData = userInput.trim();
+
+  if (cleanedData.length === 0) {
+    errors.push('Input cannot be empty');
+  }
+  if (cleanedData.length > 500) {
+    errors.push('Input too long (max 500 characters)');
+    cleanedData = cleanedData.slice(0, 500);
+  }
+
+  return { isValid: errors.length === 0, cleanedData, errors };
+}
+
+// Apply business rules based on content
+export function applyBusinessRules(cleanedData: string): { businessRules: string[]; riskLevel: RiskLevel; needsApproval: boolean } {
+  const lowerData = cleanedData.toLowerCase();
+
+  if (lowerData.includes('delete') || lowerData.includes('remove')) {
+    return { businessRules: ['deletion-protection'], riskLevel: 'high', needsApproval: true };
+  }
+  if (lowerData.includes('update') || lowerData.includes('modify')) {
+    return { businessRules: ['modification-review'], riskLevel: 'medium', needsApproval: false };
+  }
+  return { businessRules: ['standard-processing'], riskLevel: 'low', needsApproval: false };
+}
+
 // 📋 EXPLICIT STEP DEFINITIONS
 // Each step has clear inputs, outputs, and deterministic logic
 
@@ -31,23 +64,10 @@ const dataValidationStep = createStep({
   async execute({ inputData }) {
     const startTime = Date.now();
 
-    console.log(`\n🔍 [Data Validation] Starting step...`);
     console.log(`   Input: "${inputData.userInput}"`);
     console.log(`   Request ID: ${inputData.requestId || 'none'}`);
 
-    // Explicit validation logic - developer controls this
-    const errors: string[] = [];
-    let cleanedData = inputData.userInput.trim();
-
-    if (cleanedData.length === 0) {
-      errors.push('Input cannot be empty');
-    }
-    if (cleanedData.length > 500) {
-      errors.push('Input too long (max 500 characters)');
-      cleanedData = cleanedData.slice(0, 500);
-    }
-
-    const isValid = errors.length === 0;
+    const { isValid, cleanedData, errors } = validateInput(inputData.userInput);
     const processingTime = Date.now() - startTime;
 
     console.log(`   Validation: ${isValid ? 'PASSED' : 'FAILED'}`);
@@ -95,7 +115,6 @@ const businessLogicStep = createStep({
   async execute({ inputData }) {
     const startTime = Date.now();
 
-    console.log(`\n⚙️  [Business Logic] Starting step...`);
     console.log(`   Data valid: ${inputData.isValid}`);
     console.log(`   Previous step: ${inputData.stepInfo.stepName} (${inputData.stepInfo.processingTime}ms)`);
 
@@ -116,27 +135,7 @@ const businessLogicStep = createStep({
       };
     }
 
-    // Apply business rules based on content
-    const businessRules: string[] = [];
-    let riskLevel: 'low' | 'medium' | 'high' = 'low';
-    let needsApproval = false;
-
-    const lowerData = inputData.cleanedData.toLowerCase();
-
-    if (lowerData.includes('delete') || lowerData.includes('remove')) {
-      businessRules.push('deletion-protection');
-      riskLevel = 'high';
-      needsApproval = true;
-    } else if (lowerData.includes('update') || lowerData.includes('modify')) {
-      businessRules.push('modification-review');
-      riskLevel = 'medium';
-      needsApproval = false;
-    } else {
-      businessRules.push('standard-processing');
-      riskLevel = 'low';
-      needsApproval = false;
-    }
-
+    const { businessRules, riskLevel, needsApproval } = applyBusinessRules(inputData.cleanedData);
     const processedResult = `Processed: ${inputData.cleanedData} (${businessRules.join(', ')})`;
     const processingTime = Date.now() - startTime;
 
@@ -189,7 +188,6 @@ const outputFormattingStep = createStep({
   async execute({ inputData }) {
     const startTime = Date.now();
 
-    console.log(`\n📝 [Output Formatting] Starting step...`);
     console.log(`   Previous step: ${inputData.stepInfo.stepName} (${inputData.stepInfo.processingTime}ms)`);
     console.log(`   Risk level: ${inputData.riskLevel}`);
 
@@ -271,7 +269,7 @@ interface ControlFlowScenario {
   expectedRisk: 'low' | 'medium' | 'high';
 }
 
-const scenarios: ControlFlowScenario[] = [
+const controlFlowScenarios: ControlFlowScenario[] = [
   {
     name: 'Standard Processing',
     description: 'Normal flow with low-risk input',
@@ -308,7 +306,9 @@ async function demonstrateControlFlow() {
   console.log('🎯 Explicit Control Flow Demonstrations');
   console.log(`${'='.repeat(60)}`);
 
-  for (const [index, scenario] of scenarios.entries()) {
+  const expectations = new Expectations();
+
+  for (const [index, scenario] of controlFlowScenarios.entries()) {
     console.log(`\n${'─'.repeat(50)}`);
     console.log(`📍 Scenario ${index + 1}: ${scenario.name}`);
     console.log(`📝 ${scenario.description}`);
@@ -319,7 +319,7 @@ async function demonstrateControlFlow() {
     console.log(`\n🚀 Executing workflow with input: "${scenario.input}"`);
 
     try {
-      const run = standardWorkflow.createRun();
+      const run = traceWorkflowRun(standardWorkflow.createRun());
       const result = await run.start({
         inputData: {
           userInput: scenario.input,
@@ -339,22 +339,28 @@ async function demonstrateControlFlow() {
           console.log(`   Total Processing Time: ${finalStep.output.metadata.totalProcessingTime}ms`);
           console.log(`   Risk Assessment: ${finalStep.output.metadata.riskAssessment}`);
 
-          // Verify expected flow
-          const actualFlow = finalStep.output.metadata.processingChain;
-          const flowMatches = JSON.stringify(actualFlow) === JSON.stringify(scenario.expectedFlow);
-          console.log(`\n🎯 Flow Verification: ${flowMatches ? '✅ MATCHES' : '❌ DIFFERS'}`);
+          // Verify expected flow and the risk the business rules assigned
+          const businessStep = result.steps['business-logic'];
+          console.log('');
+          expectations.equal('Flow Verification', finalStep.output.metadata.processingChain, scenario.expectedFlow);
+          expectations.equal('Risk Verification', businessStep.status === 'success' ? businessStep.output.riskLevel : undefined, scenario.expectedRisk);
 
         } else {
           console.log(`❌ Final step failed: ${finalStep.status}`);
+          expectations.check('Workflow Completed', false, `final step ${finalStep.status}`);
         }
       } else {
         console.log(`❌ Workflow failed: ${result.status}`);
+        expectations.check('Workflow Completed', false, `workflow ${result.status}`);
       }
 
     } catch (error) {
       console.log(`❌ Execution error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      expectations.check('Workflow Completed', false, error instanceof Error ? error.message : String(error));
     }
   }
+
+  expectations.verify();
 }
 
 // 💡 CONTROL FLOW BENEFITS DEMONSTRATION
@@ -426,7 +432,16 @@ async function demonstrateTransparency() {
   console.log('   📊 Metadata tracking for complete audit trail');
 }
 
+export const scenarios: Scenario[] = [
+  { name: 'control-flow', description: 'Orders run through explicit validation, business and formatting steps', run: demonstrateControlFlow },
+  { name: 'benefits', description: 'Why owning the control flow helps', run: demonstrateBenefits },
+  { name: 'transparency', description: 'Step-by-step view of a single run', run: demonstrateTransparency },
+];
+
 async function main() {
+  console.log('🎯 Factor 8: Own Your Control Flow');
+  console.log('==================================');
+
   console.log('\n✨ Factor 8 demonstrates explicit developer-controlled execution flow');
   console.log('   - Each step is explicitly defined with clear inputs and outputs');
   console.log('   - Developer controls the exact sequence of operations');
@@ -434,9 +449,9 @@ async function main() {
   console.log('   - Deterministic execution with no hidden framework logic');
   console.log('   - Easy to debug, test, and modify control flow\n');
 
-  await demonstrateControlFlow();
-  await demonstrateBenefits();
-  await demonstrateTransparency();
+  for (const scenario of scenarios) {
+    await scenario.run();
+  }
 
   console.log(`\n${'='.repeat(60)}`);
   console.log('🎉 Factor 8 Demo Complete!');
@@ -450,4 +465,6 @@ async function main() {
   console.log('   ✅ No hidden framework or LLM-driven routing');
 }
 
-main().catch(console.error);
+if (isMainModule(import.meta.url)) {
+  main().catch(console.error);
+}
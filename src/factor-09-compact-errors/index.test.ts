@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+
+import { validateFormat } from './index';
+
+describe('validateFormat', () => {
+  it.each([
+    ['user@example.com', 'email'],
+    ['+44 (20) 7946-0958', 'phone'],
+    ['https://example.com/path', 'url'],
+    ['{"ok": true}', 'json'],
+  ] as const)('accepts %s as %s', (data, format) => {
+    expect(validateFormat(data, format)).toBeNull();
+  });
+
+  it.each([
+    ['invalid-email', 'email', 'Invalid email format - must contain @ and domain'],
+    ['12345', 'phone', 'Invalid phone format - must contain at least 10 digits'],
+    ['example.com', 'url', 'Invalid URL format - must start with http:// or https://'],
+    ['{invalid json}', 'json', 'Invalid JSON format - syntax error in JSON string'],
+  ] as const)('rejects %s as %s with a compact message', (data, format, message) => {
+    expect(validateFormat(data, format)).toBe(message);
+  });
+});
@@ -3,10 +3,10 @@
 import { Agent } from '@mastra/core/agent';
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { model } from '../model';
-
-console.log('🎯 Factor 9: Compact Errors into Context Window');
-console.log('==============================================');
+import { Expectations, isMainModule, toolCallsOf, type Scenario } from '../harness';
+import { modelFor } from '../model';
+import { traceAgentCall, traceTools } from '../trace';
+import { usageTracker } from '../usage';
 
 // 🛠️ ERROR-PRONE TOOLS
 // Core concept: Tools fail gracefully with compact error messages
@@ -20,15 +20,12 @@ const networkTool = createTool({
   }),
   description: 'Fetch data from an external API (may fail due to network issues)',
   execute: async ({ context }) => {
-    console.log(`\n🌐 [Network Tool] Fetching data from: ${context.url}`);
-
     // Simulate different failure scenarios
     const failureType = Math.random();
 
     if (failureType < 0.2) {
       // Network timeout error
       const error = `Network timeout: ${context.url} did not respond within ${context.timeout || 5000}ms`;
-      console.log(`   ❌ ${error}`);
 
       return {
         success: false,
@@ -41,7 +38,6 @@ const networkTool = createTool({
       // HTTP error
       const statusCode = Math.random() < 0.5 ? 404 : 500;
       const error = `HTTP ${statusCode}: ${statusCode === 404 ? 'Resource not found' : 'Internal server error'} for ${context.url}`;
-      console.log(`   ❌ ${error}`);
 
       return {
         success: false,
@@ -53,7 +49,6 @@ const networkTool = createTool({
     } else {
       // Success case
       const mockData = { result: `Data from ${context.url}`, timestamp: new Date().toISOString() };
-      console.log(`   ✅ Successfully fetched data`);
 
       return {
         success: true,
@@ -75,8 +70,6 @@ const databaseTool = createTool({
   }),
   description: 'Execute database queries (may fail due to various database issues)',
   execute: async ({ context }) => {
-    console.log(`\n📊 [Database Tool] Executing query: ${context.query}`);
-    console.log(`   Table: ${context.table}`);
 
     // Simulate different database failure scenarios
     const failureType = Math.random();
@@ -84,7 +77,6 @@ const databaseTool = createTool({
     if (failureType < 0.15) {
       // Connection error
       const error = `Database connection failed: Unable to connect to database server`;
-      console.log(`   ❌ ${error}`);
 
       return {
         success: false,
@@ -97,7 +89,6 @@ const databaseTool = createTool({
     } else if (failureType < 0.3) {
       // Table not found
       const error = `Table '${context.table}' does not exist in database`;
-      console.log(`   ❌ ${error}`);
 
       return {
         success: false,
@@ -110,7 +101,6 @@ const databaseTool = createTool({
     } else if (failureType < 0.45) {
       // Invalid SQL syntax
       const error = `SQL syntax error in query: '${context.query}' - check column names and syntax`;
-      console.log(`   ❌ ${error}`);
 
       return {
         success: false,
@@ -124,7 +114,6 @@ const databaseTool = createTool({
       // Success case
       const mockRows = Math.floor(Math.random() * 5) + 1;
       const mockData = Array.from({ length: mockRows }, (_, i) => ({ id: i + 1, value: `Row ${i + 1}` }));
-      console.log(`   ✅ Query executed successfully, ${mockRows} rows returned`);
 
       return {
         success: true,
@@ -139,6 +128,36 @@ const databaseTool = createTool({
 });
 
 // 🔐 VALIDATION TOOL (simulates validation errors)
+export type DataFormat = 'email' | 'phone' | 'url' | 'json';
+
+// Returns a compact error message, or null when the data is valid
+export function validateFormat(data: string, format: DataFormat): string | null {
+  switch (format) {
+    case 'email': {
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data) ? null : 'Invalid email format - must contain @ and domain';
+    }
+    case 'phone': {
+      return /^\+?[\d\s\-()]{10,}$/.test(data) ? null : 'Invalid phone format - must contain at least 10 digits';
+    }
+    case 'url': {
+      try {
+        new URL(data);
+        return null;
+      } catch {
+        return 'Invalid URL format - must start with http:// or https://';
+      }
+    }
+    case 'json': {
+      try {
+        JSON.parse(data);
+        return null;
+      } catch {
+        return 'Invalid JSON format - syntax error in JSON string';
+      }
+    }
+  }
+}
+
 const validationTool = createTool({
   id: 'data-validator',
   inputSchema: z.object({
@@ -147,56 +166,9 @@ const validationTool = createTool({
   }),
   description: 'Validate data formats (may fail if data is invalid)',
   execute: async ({ context }) => {
-    console.log(`\n🔐 [Validation Tool] Validating ${context.format}: ${context.data}`);
-
-    let isValid = false;
-    let error = null;
+    const error = validateFormat(context.data, context.format);
 
-    // Validation logic based on format
-    switch (context.format) {
-      case 'email': {
-        isValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(context.data);
-        if (!isValid) error = 'Invalid email format - must contain @ and domain';
-        break;
-      }
-      case 'phone': {
-        isValid = /^\+?[\d\s\-()]{10,}$/.test(context.data);
-        if (!isValid) error = 'Invalid phone format - must contain at least 10 digits';
-        break;
-      }
-      case 'url': {
-        try {
-          new URL(context.data);
-          isValid = true;
-        } catch {
-          isValid = false;
-          error = 'Invalid URL format - must start with http:// or https://';
-        }
-        break;
-      }
-      case 'json': {
-        try {
-          JSON.parse(context.data);
-          isValid = true;
-        } catch {
-          isValid = false;
-          error = 'Invalid JSON format - syntax error in JSON string';
-        }
-        break;
-      }
-    }
-
-    if (isValid) {
-      console.log(`   ✅ Validation passed`);
-      return {
-        success: true,
-        valid: true,
-        error: null,
-        message: `${context.format} validation passed`,
-        format: context.format
-      };
-    } else {
-      console.log(`   ❌ ${error}`);
+    if (error !== null) {
       return {
         success: false,
         valid: false,
@@ -205,12 +177,22 @@ const validationTool = createTool({
         format: context.format
       };
     }
+
+    return {
+      success: true,
+      valid: true,
+      error: null,
+      message: `${context.format} validation passed`,
+      format: context.format
+    };
   },
 });
 
 // 🤖 ERROR-AWARE AGENT
 // Agent that handles tool errors gracefully
 
+const errorProneTools = { networkTool, databaseTool, validationTool };
+
 const errorHandlingAgent = new Agent({
   name: 'ErrorHandlingAgent',
   instructions: `You are an assistant that works with potentially unreliable tools.
@@ -232,8 +214,8 @@ Available tools:
 - data-validator: Validates data formats (may fail for invalid data)
 
 Always try to be helpful even when tools fail.`,
-  model,
-  tools: { networkTool, databaseTool, validationTool },
+  model: modelFor('ErrorHandlingAgent'),
+  tools: traceTools(errorProneTools),
 });
 
 // 🎭 ERROR HANDLING SCENARIOS
@@ -245,7 +227,7 @@ interface ErrorScenario {
   errorHandling: string;
 }
 
-const scenarios: ErrorScenario[] = [
+const errorScenarios: ErrorScenario[] = [
   {
     name: 'Network Failure Recovery',
     description: 'Handle network timeout gracefully',
@@ -282,7 +264,9 @@ async function demonstrateErrorHandling() {
   console.log('🎯 Compact Error Handling Demonstrations');
   console.log(`${'='.repeat(60)}`);
 
-  for (const [index, scenario] of scenarios.entries()) {
+  const expectations = new Expectations();
+
+  for (const [index, scenario] of errorScenarios.entries()) {
     console.log(`\n${'─'.repeat(50)}`);
     console.log(`📍 Scenario ${index + 1}: ${scenario.name}`);
     console.log(`📝 ${scenario.description}`);
@@ -294,19 +278,20 @@ async function demonstrateErrorHandling() {
     console.log('🤖 Agent processing with error-prone tools...');
 
     try {
-      const result = await errorHandlingAgent.generateVNext(scenario.userRequest);
+      const result = await traceAgentCall(errorHandlingAgent.name, scenario.userRequest, () => errorHandlingAgent.generateVNext(scenario.userRequest));
 
       console.log(`\n💬 Agent Response: ${result.text}`);
 
       // Show tool usage and error handling
-      if (result.toolResults && result.toolResults.length > 0) {
+      const toolCalls = toolCallsOf(result, errorProneTools);
+      if (toolCalls.length > 0) {
         console.log('\n[🔧 Tool Results]:');
-        for (const toolResult of result.toolResults) {
-          console.log(`  📦 ${toolResult.toolName}:`);
+        for (const toolCall of toolCalls) {
+          console.log(`  📦 ${toolCall.tool}:`);
 
-                     if (toolResult.result && typeof toolResult.result === 'object') {
-             const res = toolResult.result as { success?: boolean; error?: string; message?: string; retryable?: boolean };
-             if (res.success === false) {
+          if (toolCall.result && typeof toolCall.result === 'object') {
+            const res = toolCall.result as { success?: boolean; error?: string; message?: string; retryable?: boolean };
+            if (res.success === false) {
               console.log(`     ❌ Error: ${res.error}`);
               console.log(`     💬 Message: ${res.message}`);
               console.log(`     🔄 Retryable: ${res.retryable ? 'Yes' : 'No'}`);
@@ -314,20 +299,73 @@ async function demonstrateErrorHandling() {
               console.log(`     ✅ Success: ${res.message || 'Tool executed successfully'}`);
             }
           } else {
-            console.log(`     Result: ${JSON.stringify(toolResult.result, null, 2)}`);
+            console.log(`     Result: ${JSON.stringify(toolCall.result, null, 2)}`);
           }
         }
       } else {
         console.log('\n[ℹ️  No tools were called for this request]');
       }
 
+      // Every failure must reach the agent as a short, structured result rather than an exception
+      console.log('');
+      expectations.equal('Tool Calls', toolCalls.map(toolCall => toolCall.tool), scenario.expectedTools);
+      expectations.check('Compact Error Results', toolCalls.every(toolCall => isCompactResult(toolCall.result)));
+
       console.log(`\n✅ Scenario completed - Errors handled gracefully without crashing`);
 
     } catch (error) {
       console.log(`\n❌ Unexpected agent error: ${error instanceof Error ? error.message : 'Unknown error'}`);
       console.log('   This suggests error handling could be improved');
+      expectations.check('Agent Kept Running', false, error instanceof Error ? error.message : String(error));
     }
   }
+
+  expectations.verify();
+}
+
+// A compact result says whether it worked and, when it did not, gives an error code, a one-line message
+// and whether a retry could help
+function isCompactResult(result: unknown): boolean {
+  if (!result || typeof result !== 'object') return false;
+
+  const { success, error, message, retryable } = result as { success?: unknown; error?: unknown; message?: unknown; retryable?: unknown };
+  if (success === true) return true;
+
+  return success === false
+    && typeof error === 'string'
+    && typeof message === 'string'
+    && !message.includes('\n')
+    && (retryable === undefined || typeof retryable === 'boolean');
+}
+
+// 🔐 VALIDATOR CHECKS
+// The validation tool's rules are plain code, so the same inputs always produce the same verdict
+async function demonstrateValidators() {
+  console.log(`\n${'='.repeat(60)}`);
+  console.log('🔐 Validator Checks');
+  console.log(`${'='.repeat(60)}`);
+
+  const cases: Array<{ data: string; format: DataFormat; valid: boolean }> = [
+    { data: 'jane@example.com', format: 'email', valid: true },
+    { data: 'invalid-email-format', format: 'email', valid: false },
+    { data: '+44 (20) 7946-0958', format: 'phone', valid: true },
+    { data: '12345', format: 'phone', valid: false },
+    { data: 'https://api.example.com/data', format: 'url', valid: true },
+    { data: 'api.example.com', format: 'url', valid: false },
+    { data: '{"ok":true}', format: 'json', valid: true },
+    { data: '{ok: true}', format: 'json', valid: false }
+  ];
+
+  const expectations = new Expectations();
+
+  for (const testCase of cases) {
+    const error = validateFormat(testCase.data, testCase.format);
+    console.log(`\n🔍 ${testCase.format}: "${testCase.data}"`);
+    console.log(`   ${error === null ? '✅ Valid' : `❌ ${error}`}`);
+    expectations.equal('Verdict', error === null, testCase.valid);
+  }
+
+  expectations.verify();
 }
 
 // 💡 ERROR HANDLING BENEFITS
@@ -406,7 +444,17 @@ async function demonstrateErrorPatterns() {
   console.log('   6️⃣ Continue conversation without crashing');
 }
 
+export const scenarios: Scenario[] = [
+  { name: 'error-handling', description: 'Network, database and validation failures compacted for the agent', run: demonstrateErrorHandling },
+  { name: 'validators', description: 'Validation rules checked against known good and bad inputs', run: demonstrateValidators },
+  { name: 'benefits', description: 'Why compact errors keep agents running', run: demonstrateBenefits },
+  { name: 'error-patterns', description: 'Common error classification patterns', run: demonstrateErrorPatterns },
+];
+
 async function main() {
+  console.log('🎯 Factor 9: Compact Errors into Context Window');
+  console.log('==============================================');
+
   console.log('\n✨ Factor 9 demonstrates compact error handling for reliable agents');
   console.log('   - Tools fail gracefully with structured error responses');
   console.log('   - Error information is compacted into context window');
@@ -414,9 +462,9 @@ async function main() {
   console.log('   - Clear error classification (retryable vs permanent)');
   console.log('   - Conversation flow preserved through error scenarios\n');
 
-  await demonstrateErrorHandling();
-  await demonstrateBenefits();
-  await demonstrateErrorPatterns();
+  for (const scenario of scenarios) {
+    await scenario.run();
+  }
 
   console.log(`\n${'='.repeat(60)}`);
   console.log('🎉 Factor 9 Demo Complete!');
@@ -428,6 +476,10 @@ async function main() {
   console.log('   ✅ Clear error classification and recovery guidance');
   console.log('   ✅ Structured error responses enable smart handling');
   console.log('   ✅ No system crashes or context loss from errors');
+
+  usageTracker.printSummary();
 }
 
-main().catch(console.error);
+if (isMainModule(import.meta.url)) {
+  main().catch(console.error);
+}
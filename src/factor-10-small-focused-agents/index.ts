@@ -3,14 +3,10 @@
 import { Agent } from '@mastra/core/agent';
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { model } from '../model';
-
-console.log('Factor 10: Small Focused Agents');
-console.log('================================================');
-console.log('Demonstration: Multiple agents with specific responsibilities');
-console.log('Key principle: Each agent should have a single, well-defined responsibility');
-console.log('Reference: https://github.com/humanlayer/12-factor-agents/blob/main/content/factor-10-small-focused-agents.md');
-console.log('');
+import { Expectations, isMainModule, toolCallsOf, type Scenario } from '../harness';
+import { modelFor } from '../model';
+import { traceAgentCall, traceTools } from '../trace';
+import { usageTracker } from '../usage';
 
 // Simple calculation tools for demonstration
 const addTool = createTool({
@@ -22,7 +18,6 @@ const addTool = createTool({
   description: 'Add two numbers together',
   execute: async ({ context }) => {
     const result = context.a + context.b;
-    console.log(`  [Tool] ${context.a} + ${context.b} = ${result}`);
     return { result, operation: 'addition' };
   },
 });
@@ -36,11 +31,12 @@ const multiplyTool = createTool({
   description: 'Multiply two numbers',
   execute: async ({ context }) => {
     const result = context.a * context.b;
-    console.log(`  [Tool] ${context.a} * ${context.b} = ${result}`);
     return { result, operation: 'multiplication' };
   },
 });
 
+const calculationTools = { addTool, multiplyTool };
+
 // Define small, focused agents with specific responsibilities
 const analysisAgent = new Agent({
   name: 'AnalysisAgent',
@@ -54,8 +50,8 @@ Always respond with:
 3. Analysis summary
 
 Keep responses focused and analytical.`,
-  model,
-  tools: { addTool }, // Can do basic math for analysis
+  model: modelFor('AnalysisAgent'),
+  tools: traceTools({ addTool }), // Can do basic math for analysis
 });
 
 const planningAgent = new Agent({
@@ -70,7 +66,7 @@ Always respond with:
 3. Expected outcomes
 
 Keep responses focused on actionable planning.`,
-  model,
+  model: modelFor('PlanningAgent'),
 });
 
 const executionAgent = new Agent({
@@ -85,8 +81,8 @@ Always respond with:
 3. Next actions
 
 Keep responses focused on execution details.`,
-  model,
-  tools: { multiplyTool }, // Can do calculations during execution
+  model: modelFor('ExecutionAgent'),
+  tools: traceTools({ multiplyTool }), // Can do calculations during execution
 });
 
 const reviewAgent = new Agent({
@@ -101,14 +97,15 @@ Always respond with:
 3. Improvement suggestions
 
 Keep responses focused on constructive review.`,
-  model,
+  model: modelFor('ReviewAgent'),
 });
 
-// Agent coordination function
-async function runAgentChain(topic: string, agents: Agent[]): Promise<void> {
+// Agent coordination function; checks which tools the chain called, across all of its agents
+async function runAgentChain(topic: string, agents: Agent[], expectations: Expectations, expectedTools: string[] = []): Promise<void> {
   console.log(`\n=== Agent Chain for: "${topic}" ===`);
 
   let currentInput = topic;
+  const toolsUsed: string[] = [];
 
   for (const [i, agent] of agents.entries()) {
     const stepNumber = i + 1;
@@ -117,60 +114,93 @@ async function runAgentChain(topic: string, agents: Agent[]): Promise<void> {
     console.log(`Input: ${currentInput}`);
 
     try {
-      const result = await agent.generateVNext(currentInput);
+      const result = await traceAgentCall(agent.name, currentInput, () => agent.generateVNext(currentInput));
       console.log(`Output: ${result.text}`);
 
       // Log any tool usage
-      if (result.toolResults && result.toolResults.length > 0) {
-        console.log(`Tools used: ${result.toolResults.map(tr => tr.toolName).join(', ')}`);
+      const toolCalls = toolCallsOf(result, calculationTools);
+      if (toolCalls.length > 0) {
+        console.log(`Tools used: ${toolCalls.map(toolCall => toolCall.tool).join(', ')}`);
       }
+      toolsUsed.push(...toolCalls.map(toolCall => toolCall.tool));
 
       // Pass output to next agent
       currentInput = result.text;
 
     } catch (error) {
       console.error(`Error in ${agent.name}:`, error instanceof Error ? error.message : error);
-      break;
+      expectations.check('Chain Completed', false, `${agent.name}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
     }
   }
+
+  expectations.equal('Tool Calls', toolsUsed, expectedTools);
+}
+
+interface AgentChain {
+  title: string;
+  chain: string;
+  topic: string;
+  agents: Agent[];
+  // Only the analysis and execution agents have tools, and only a task with numbers should need them
+  expectedTools: string[];
 }
 
 // Demonstrate different agent combinations
+const agentChains: AgentChain[] = [
+  // Full pipeline - Analysis → Planning → Execution → Review
+  {
+    title: '🔄 Scenario 1: Complete Pipeline (4 agents)',
+    chain: 'Analysis → Planning → Execution → Review',
+    topic: 'Create a simple budget tracking system',
+    agents: [analysisAgent, planningAgent, executionAgent, reviewAgent],
+    expectedTools: [],
+  },
+  // Planning only - skip analysis, go straight to planning
+  {
+    title: '📋 Scenario 2: Planning Focus (1 agent)',
+    chain: 'Planning only',
+    topic: 'Organize a team meeting about project deadlines',
+    agents: [planningAgent],
+    expectedTools: [],
+  },
+  // Analysis + Review - skip implementation
+  {
+    title: '🔍 Scenario 3: Analysis + Review (2 agents)',
+    chain: 'Analysis → Review',
+    topic: 'Evaluate the pros and cons of remote work',
+    agents: [analysisAgent, reviewAgent],
+    expectedTools: [],
+  },
+  // Execution + Review - for implementation tasks
+  {
+    title: '⚙️ Scenario 4: Execution + Review (2 agents)',
+    chain: 'Execution → Review',
+    topic: 'Implement a daily standup meeting format',
+    agents: [executionAgent, reviewAgent],
+    expectedTools: [],
+  },
+  // Calculation handoff - each agent uses its own tool on its part of the problem
+  {
+    title: '🧮 Scenario 5: Calculation Handoff (2 agents)',
+    chain: 'Analysis → Execution',
+    topic: 'Work out the weekly meeting hours for a team of 4 people, where each person has a 3 hour planning session and a 2 hour review every week',
+    agents: [analysisAgent, executionAgent],
+    expectedTools: ['add', 'multiply'],
+  },
+];
+
 async function demonstrateSmallFocusedAgents(): Promise<void> {
   console.log('\n📋 DEMONSTRATION: Small Focused Agents');
   console.log('=====================================');
 
-  // Scenario 1: Full pipeline - Analysis → Planning → Execution → Review
-  console.log('\n🔄 Scenario 1: Complete Pipeline (4 agents)');
-  console.log('Chain: Analysis → Planning → Execution → Review');
-  await runAgentChain(
-    'Create a simple budget tracking system',
-    [analysisAgent, planningAgent, executionAgent, reviewAgent]
-  );
-
-  // Scenario 2: Planning only - skip analysis, go straight to planning
-  console.log('\n📋 Scenario 2: Planning Focus (1 agent)');
-  console.log('Chain: Planning only');
-  await runAgentChain(
-    'Organize a team meeting about project deadlines',
-    [planningAgent]
-  );
-
-  // Scenario 3: Analysis + Review - skip implementation
-  console.log('\n🔍 Scenario 3: Analysis + Review (2 agents)');
-  console.log('Chain: Analysis → Review');
-  await runAgentChain(
-    'Evaluate the pros and cons of remote work',
-    [analysisAgent, reviewAgent]
-  );
-
-  // Scenario 4: Execution + Review - for implementation tasks
-  console.log('\n⚙️ Scenario 4: Execution + Review (2 agents)');
-  console.log('Chain: Execution → Review');
-  await runAgentChain(
-    'Implement a daily standup meeting format',
-    [executionAgent, reviewAgent]
-  );
+  const expectations = new Expectations();
+  for (const { title, chain, topic, agents, expectedTools } of agentChains) {
+    console.log(`\n${title}`);
+    console.log(`Chain: ${chain}`);
+    await runAgentChain(topic, agents, expectations, expectedTools);
+  }
+  expectations.verify();
 }
 
 // Demonstrate agent specialization
@@ -199,7 +229,7 @@ async function demonstrateAgentSpecialization(): Promise<void> {
     for (const { agent, role } of agents) {
       console.log(`\n${role} perspective:`);
       try {
-        const result = await agent.generateVNext(topic);
+        const result = await traceAgentCall(agent.name, topic, () => agent.generateVNext(topic));
         console.log(`${result.text.slice(0, 150)}...`);
       } catch (error) {
         console.error(`Error in ${agent.name}:`, error instanceof Error ? error.message : error);
@@ -220,8 +250,8 @@ async function demonstrateFocusedVsUnfocused(): Promise<void> {
 
     You can analyze, plan, execute, and review. You can handle any task.
     Try to be helpful with whatever the user needs.`,
-    model,
-    tools: { addTool, multiplyTool },
+    model: modelFor('UnfocusedAgent'),
+    tools: traceTools({ addTool, multiplyTool }),
   });
 
   const testTopic = 'Improve our customer support process';
@@ -231,7 +261,7 @@ async function demonstrateFocusedVsUnfocused(): Promise<void> {
   // Show unfocused agent response
   console.log('\n❌ Unfocused Agent Response:');
   try {
-    const unfocusedResult = await unfocusedAgent.generateVNext(testTopic);
+    const unfocusedResult = await traceAgentCall(unfocusedAgent.name, testTopic, () => unfocusedAgent.generateVNext(testTopic));
     console.log(unfocusedResult.text);
   } catch (error) {
     console.error('Error with unfocused agent:', error instanceof Error ? error.message : error);
@@ -239,7 +269,9 @@ async function demonstrateFocusedVsUnfocused(): Promise<void> {
 
   // Show focused agents working together
   console.log('\n✅ Focused Agents Working Together:');
-  await runAgentChain(testTopic, [analysisAgent, planningAgent]);
+  const expectations = new Expectations();
+  await runAgentChain(testTopic, [analysisAgent, planningAgent], expectations);
+  expectations.verify();
 
   console.log('\n🔍 Key Differences:');
   console.log('- Unfocused: Tries to do everything, may lack depth');
@@ -248,12 +280,25 @@ async function demonstrateFocusedVsUnfocused(): Promise<void> {
   console.log('- Focused: Better debugging and maintenance');
 }
 
+export const scenarios: Scenario[] = [
+  { name: 'focused-agents', description: 'Analysis, planning, execution and review agents chained on one topic', run: demonstrateSmallFocusedAgents },
+  { name: 'agent-specialization', description: 'Each agent answering within its own responsibility', run: demonstrateAgentSpecialization },
+  { name: 'focused-vs-unfocused', description: 'One focused agent compared with a general-purpose one', run: demonstrateFocusedVsUnfocused },
+];
+
 // Main execution function
 async function main(): Promise<void> {
+  console.log('Factor 10: Small Focused Agents');
+  console.log('================================================');
+  console.log('Demonstration: Multiple agents with specific responsibilities');
+  console.log('Key principle: Each agent should have a single, well-defined responsibility');
+  console.log('Reference: https://github.com/humanlayer/12-factor-agents/blob/main/content/factor-10-small-focused-agents.md');
+  console.log('');
+
   try {
-    await demonstrateSmallFocusedAgents();
-    await demonstrateAgentSpecialization();
-    await demonstrateFocusedVsUnfocused();
+    for (const scenario of scenarios) {
+      await scenario.run();
+    }
 
     console.log('\n✅ FACTOR 10 DEMONSTRATION COMPLETE');
     console.log('=================================');
@@ -267,7 +312,11 @@ async function main(): Promise<void> {
   } catch (error) {
     console.error('Demo failed:', error instanceof Error ? error.message : error);
     throw error;
+  } finally {
+    usageTracker.printSummary();
   }
 }
 
-main().catch(console.error);
+if (isMainModule(import.meta.url)) {
+  main().catch(console.error);
+}
@@ -3,14 +3,10 @@
 import { Agent } from '@mastra/core/agent';
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { model } from '../model';
-
-console.log('Factor 11: Trigger from Anywhere');
-console.log('================================================');
-console.log('Demonstration: Agents can be triggered from multiple sources');
-console.log('Key principle: Agents should be accessible via APIs, webhooks, schedulers, and other triggers');
-console.log('Reference: https://github.com/humanlayer/12-factor-agents/blob/main/content/factor-11-trigger-from-anywhere.md');
-console.log('');
+import { Expectations, isMainModule, toolCallsOf, type Scenario } from '../harness';
+import { modelFor } from '../model';
+import { traceAgentCall, traceTools } from '../trace';
+import { usageTracker } from '../usage';
 
 // Tools for event processing
 const processEventTool = createTool({
@@ -22,8 +18,6 @@ const processEventTool = createTool({
   }),
   description: 'Process an incoming event',
   execute: async ({ context }) => {
-    console.log(`  [Tool] Processing ${context.eventType} event from ${context.source}`);
-    console.log(`  [Tool] Event data:`, JSON.stringify(context.eventData, null, 2));
     return {
       processed: true,
       eventType: context.eventType,
@@ -50,6 +44,11 @@ const logEventTool = createTool({
   },
 });
 
+const eventTools = { processEventTool, logEventTool };
+
+// Whatever triggered it, every event should be processed and then logged
+const EXPECTED_TOOLS = ['processEvent', 'logEvent'];
+
 // Event processing agent
 const eventProcessorAgent = new Agent({
   name: 'EventProcessor',
@@ -62,8 +61,8 @@ Your responsibilities:
 4. Handle different event sources appropriately
 
 Always process events systematically and provide clear status updates.`,
-  model,
-  tools: { processEventTool, logEventTool },
+  model: modelFor('EventProcessor'),
+  tools: traceTools(eventTools),
 });
 
 // Simulate different trigger sources
@@ -201,7 +200,7 @@ const fileTrigger: TriggerSource = {
 };
 
 // Function to trigger agent from a specific source
-async function triggerAgentFromSource(source: TriggerSource): Promise<void> {
+async function triggerAgentFromSource(source: TriggerSource, expectations: Expectations): Promise<void> {
   console.log(`\n🔥 Triggering agent from: ${source.name}`);
   console.log(`Description: ${source.description}`);
   console.log('---');
@@ -214,17 +213,20 @@ async function triggerAgentFromSource(source: TriggerSource): Promise<void> {
     console.log(`Event Data:`, JSON.stringify(event.eventData, null, 2));
 
     // Trigger the agent
-    const result = await eventProcessorAgent.generateVNext(event.prompt);
+    const result = await traceAgentCall(eventProcessorAgent.name, event.prompt, () => eventProcessorAgent.generateVNext(event.prompt));
 
     console.log(`Agent Response: ${result.text}`);
 
     // Log tool usage
-    if (result.toolResults && result.toolResults.length > 0) {
-      console.log(`Tools used: ${result.toolResults.map(tr => tr.toolName).join(', ')}`);
+    const toolCalls = toolCallsOf(result, eventTools);
+    if (toolCalls.length > 0) {
+      console.log(`Tools used: ${toolCalls.map(toolCall => toolCall.tool).join(', ')}`);
     }
+    expectations.equal('Tool Calls', toolCalls.map(toolCall => toolCall.tool), EXPECTED_TOOLS);
 
   } catch (error) {
     console.error(`Error processing event from ${source.name}:`, error instanceof Error ? error.message : error);
+    expectations.check('Event Processed', false, error instanceof Error ? error.message : String(error));
   }
 }
 
@@ -242,9 +244,11 @@ async function demonstrateVariousTriggers(): Promise<void> {
     fileTrigger
   ];
 
+  const expectations = new Expectations();
   for (const trigger of triggers) {
-    await triggerAgentFromSource(trigger);
+    await triggerAgentFromSource(trigger, expectations);
   }
+  expectations.verify();
 }
 
 // Demonstrate concurrent triggers
@@ -253,6 +257,8 @@ async function demonstrateConcurrentTriggers(): Promise<void> {
   console.log('====================================');
   console.log('Simulating multiple events arriving simultaneously...');
 
+  const expectations = new Expectations();
+
   const concurrentEvents = [
     apiTrigger.simulateEvent(),
     webhookTrigger.simulateEvent(),
@@ -270,11 +276,11 @@ async function demonstrateConcurrentTriggers(): Promise<void> {
       console.log(`Source: ${event.source}`);
       console.log(`Type: ${event.eventType}`);
 
-      const result = await eventProcessorAgent.generateVNext(event.prompt);
+      const result = await traceAgentCall(eventProcessorAgent.name, event.prompt, () => eventProcessorAgent.generateVNext(event.prompt));
       return {
         event,
         result: result.text,
-        toolResults: result.toolResults
+        toolCalls: toolCallsOf(result, eventTools)
       };
     });
 
@@ -283,9 +289,16 @@ async function demonstrateConcurrentTriggers(): Promise<void> {
     console.log('\n✅ All concurrent events processed successfully!');
     console.log(`Processed ${results.length} events simultaneously`);
 
+    for (const { event, toolCalls } of results) {
+      expectations.equal(`Tool Calls (${event.source})`, toolCalls.map(toolCall => toolCall.tool), EXPECTED_TOOLS);
+    }
+
   } catch (error) {
     console.error('Error processing concurrent events:', error instanceof Error ? error.message : error);
+    expectations.check('Events Processed', false, error instanceof Error ? error.message : String(error));
   }
+
+  expectations.verify();
 }
 
 // Demonstrate trigger flexibility
@@ -318,31 +331,50 @@ async function demonstrateTriggerFlexibility(): Promise<void> {
     }
   ];
 
+  const expectations = new Expectations();
   for (const scenario of customScenarios) {
     console.log(`\n🔧 Custom Scenario: ${scenario.name}`);
     console.log(`Source: ${scenario.source}`);
     console.log(`Event Type: ${scenario.eventType}`);
 
     try {
-      const result = await eventProcessorAgent.generateVNext(scenario.prompt);
+      const result = await traceAgentCall(eventProcessorAgent.name, scenario.prompt, () => eventProcessorAgent.generateVNext(scenario.prompt));
       console.log(`Agent Response: ${result.text}`);
 
-      if (result.toolResults && result.toolResults.length > 0) {
-        console.log(`Tools used: ${result.toolResults.map(tr => tr.toolName).join(', ')}`);
+      const toolCalls = toolCallsOf(result, eventTools);
+      if (toolCalls.length > 0) {
+        console.log(`Tools used: ${toolCalls.map(toolCall => toolCall.tool).join(', ')}`);
       }
+      expectations.equal('Tool Calls', toolCalls.map(toolCall => toolCall.tool), EXPECTED_TOOLS);
 
     } catch (error) {
       console.error(`Error in scenario ${scenario.name}:`, error instanceof Error ? error.message : error);
+      expectations.check('Event Processed', false, error instanceof Error ? error.message : String(error));
     }
   }
+
+  expectations.verify();
 }
 
+export const scenarios: Scenario[] = [
+  { name: 'various-triggers', description: 'Events from API, webhook, scheduler and other sources', run: demonstrateVariousTriggers },
+  { name: 'concurrent-triggers', description: 'Several events processed at the same time', run: demonstrateConcurrentTriggers },
+  { name: 'trigger-flexibility', description: 'Custom trigger sources and payloads', run: demonstrateTriggerFlexibility },
+];
+
 // Main execution function
 async function main(): Promise<void> {
+  console.log('Factor 11: Trigger from Anywhere');
+  console.log('================================================');
+  console.log('Demonstration: Agents can be triggered from multiple sources');
+  console.log('Key principle: Agents should be accessible via APIs, webhooks, schedulers, and other triggers');
+  console.log('Reference: https://github.com/humanlayer/12-factor-agents/blob/main/content/factor-11-trigger-from-anywhere.md');
+  console.log('');
+
   try {
-    await demonstrateVariousTriggers();
-    await demonstrateConcurrentTriggers();
-    await demonstrateTriggerFlexibility();
+    for (const scenario of scenarios) {
+      await scenario.run();
+    }
 
     console.log('\n✅ FACTOR 11 DEMONSTRATION COMPLETE');
     console.log('=================================');
@@ -357,7 +389,11 @@ async function main(): Promise<void> {
   } catch (error) {
     console.error('Demo failed:', error instanceof Error ? error.message : error);
     throw error;
+  } finally {
+    usageTracker.printSummary();
   }
 }
 
-main().catch(console.error);
+if (isMainModule(import.meta.url)) {
+  main().catch(console.error);
+}
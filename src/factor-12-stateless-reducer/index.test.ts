@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+
+import { aboveTen, aggregate, reduceBatch, square, summarize } from './index';
+
+describe('stateless reducers', () => {
+  it('squares, filters and summarizes values', () => {
+    expect(square([1, 2, 3, 4, 5])).toEqual([1, 4, 9, 16, 25]);
+    expect(aboveTen([1, 4, 9, 16, 25])).toEqual([16, 25]);
+    expect(summarize([16, 25])).toEqual({ sum: 41, count: 2, average: 20.5 });
+  });
+
+  it('averages an empty list to zero', () => {
+    expect(summarize([])).toEqual({ sum: 0, count: 0, average: 0 });
+    expect(aggregate([])).toEqual({ totalSum: 0, totalCount: 0, overallAverage: 0 });
+  });
+
+  it('aggregates batches to the same totals as one pass over all values', () => {
+    const batches = [[1, 2, 3], [4, 5], [6]];
+
+    expect(aggregate(batches.map(batch => reduceBatch(batch)))).toEqual({ totalSum: 21, totalCount: 6, overallAverage: 3.5 });
+  });
+
+  it('returns the same output for the same input', () => {
+    expect(summarize(aboveTen(square([3, 7, 9])))).toEqual(summarize(aboveTen(square([3, 7, 9]))));
+  });
+
+  it('does not mutate its input', () => {
+    const values = [5, 1, 4];
+    square(values);
+    aboveTen(values);
+
+    expect(values).toEqual([5, 1, 4]);
+  });
+});
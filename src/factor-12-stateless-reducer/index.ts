@@ -2,13 +2,37 @@
 
 import { createStep, createWorkflow } from '@mastra/core/workflows';
 import { z } from 'zod';
+import { Expectations, isMainModule, type Scenario } from '../harness';
+import { traceWorkflowRun } from '../trace';
 
-console.log('Factor 12: Stateless Reducer');
-console.log('================================================');
-console.log('Demonstration: Stateless workflow execution with reducer patterns');
-console.log('Key principle: Functions should be stateless and composable like reduce operations');
-console.log('Reference: https://github.com/humanlayer/12-factor-agents/blob/main/content/factor-12-stateless-reducer.md');
-console.log('');
+// Pure reducers: the output depends only on the input, which is what lets the steps run anywhere
+
+// Map operation: square each number
+export function square(values: number[]): number[] {
+  return values.map(v => v * v);
+}
+
+// Filter operation: keep only values > 10
+export function aboveTen(values: number[]): number[] {
+  return values.filter(v => v > 10);
+}
+
+// Reduce operation: calculate sum, count, and average
+export function summarize(values: number[]): { sum: number; count: number; average: number } {
+  const sum = values.reduce((acc, v) => acc + v, 0);
+  const count = values.length;
+  return { sum, count, average: count > 0 ? sum / count : 0 };
+}
+
+export function reduceBatch(batch: number[]): { sum: number; count: number } {
+  return { sum: batch.reduce((acc, v) => acc + v, 0), count: batch.length };
+}
+
+export function aggregate(results: { sum: number; count: number }[]): { totalSum: number; totalCount: number; overallAverage: number } {
+  const totalSum = results.reduce((acc, r) => acc + r.sum, 0);
+  const totalCount = results.reduce((acc, r) => acc + r.count, 0);
+  return { totalSum, totalCount, overallAverage: totalCount > 0 ? totalSum / totalCount : 0 };
+}
 
 // Simple stateless reducer steps
 const mapStep = createStep({
@@ -17,8 +41,7 @@ const mapStep = createStep({
   outputSchema: z.object({ mappedValues: z.array(z.number()) }),
   async execute({ inputData }) {
     console.log('  [Map Step] Processing values:', inputData.values);
-    // Map operation: square each number
-    const mappedValues = inputData.values.map(v => v * v);
+    const mappedValues = square(inputData.values);
     console.log('  [Map Step] Mapped values (squared):', mappedValues);
     return { mappedValues };
   },
@@ -30,8 +53,7 @@ const filterStep = createStep({
   outputSchema: z.object({ filteredValues: z.array(z.number()) }),
   async execute({ inputData }) {
     console.log('  [Filter Step] Filtering values:', inputData.mappedValues);
-    // Filter operation: keep only values > 10
-    const filteredValues = inputData.mappedValues.filter(v => v > 10);
+    const filteredValues = aboveTen(inputData.mappedValues);
     console.log('  [Filter Step] Filtered values (> 10):', filteredValues);
     return { filteredValues };
   },
@@ -43,10 +65,7 @@ const reduceStep = createStep({
   outputSchema: z.object({ sum: z.number(), count: z.number(), average: z.number() }),
   async execute({ inputData }) {
     console.log('  [Reduce Step] Reducing values:', inputData.filteredValues);
-    // Reduce operation: calculate sum, count, and average
-    const sum = inputData.filteredValues.reduce((acc, v) => acc + v, 0);
-    const count = inputData.filteredValues.length;
-    const average = count > 0 ? sum / count : 0;
+    const { sum, count, average } = summarize(inputData.filteredValues);
 
     console.log('  [Reduce Step] Results - Sum:', sum, 'Count:', count, 'Average:', average);
     return { sum, count, average };
@@ -77,9 +96,7 @@ const parallelReducerStep = createStep({
     const results = await Promise.all(
       inputData.batches.map(async (batch, index) => {
         console.log(`    [Batch ${index}] Processing:`, batch);
-        const sum = batch.reduce((acc, v) => acc + v, 0);
-        const count = batch.length;
-        return { sum, count };
+        return reduceBatch(batch);
       })
     );
 
@@ -95,9 +112,7 @@ const aggregateStep = createStep({
   async execute({ inputData }) {
     console.log('  [Aggregate Step] Combining results:', inputData.results);
 
-    const totalSum = inputData.results.reduce((acc, r) => acc + r.sum, 0);
-    const totalCount = inputData.results.reduce((acc, r) => acc + r.count, 0);
-    const overallAverage = totalCount > 0 ? totalSum / totalCount : 0;
+    const { totalSum, totalCount, overallAverage } = aggregate(inputData.results);
 
     console.log('  [Aggregate Step] Final results - Sum:', totalSum, 'Count:', totalCount, 'Average:', overallAverage);
     return { totalSum, totalCount, overallAverage };
@@ -139,11 +154,11 @@ async function executeStatelessWorkflow(values: number[], useParallel: boolean =
       }
 
       console.log('Batches:', batches);
-      const parallelRun = parallelWorkflow.createRun();
+      const parallelRun = traceWorkflowRun(parallelWorkflow.createRun());
       result = await parallelRun.start({ inputData: { batches } });
     } else {
       // Sequential processing
-      const sequentialRun = statelessReducerWorkflow.createRun();
+      const sequentialRun = traceWorkflowRun(statelessReducerWorkflow.createRun());
       result = await sequentialRun.start({ inputData: { values } });
     }
 
@@ -168,6 +183,11 @@ async function executeStatelessWorkflow(values: number[], useParallel: boolean =
   }
 }
 
+// The workflow's own output, without the per-step timings that differ between runs
+function workflowOutput(execution: { result?: unknown }): unknown {
+  return (execution.result as { result?: unknown } | undefined)?.result;
+}
+
 // Demonstrate sequential vs parallel processing
 async function demonstrateSequentialVsParallel(): Promise<void> {
   console.log('\n🔄 DEMONSTRATION: Sequential vs Parallel Processing');
@@ -190,6 +210,17 @@ async function demonstrateSequentialVsParallel(): Promise<void> {
   console.log(`Sequential time: ${sequentialResult.executionTime}ms`);
   console.log(`Parallel time: ${parallelResult.executionTime}ms`);
   console.log(`Speedup: ${(sequentialResult.executionTime / parallelResult.executionTime).toFixed(2)}x`);
+
+  // Batches reduced independently must add up to the same totals as one pass over the input
+  const expectations = new Expectations();
+  const total = testData.reduce((acc, v) => acc + v, 0);
+  console.log('');
+  expectations.equal('Parallel Totals', workflowOutput(parallelResult), {
+    totalSum: total,
+    totalCount: testData.length,
+    overallAverage: total / testData.length
+  });
+  expectations.verify();
 }
 
 // Demonstrate stateless properties
@@ -197,15 +228,17 @@ async function demonstrateStatelessProperties(): Promise<void> {
   console.log('\n🔧 DEMONSTRATION: Stateless Properties');
   console.log('=====================================');
 
+  // Squares above 10, summed and averaged
   const testInputs = [
-    [1, 2, 3, 4, 5],
-    [10, 20, 30, 40, 50],
-    [5, 15, 25, 35, 45]
+    { input: [1, 2, 3, 4, 5], expected: { sum: 41, count: 2, average: 20.5 } },
+    { input: [10, 20, 30, 40, 50], expected: { sum: 5500, count: 5, average: 1100 } },
+    { input: [5, 15, 25, 35, 45], expected: { sum: 4125, count: 5, average: 825 } }
   ];
+  const expectations = new Expectations();
 
   console.log('Testing multiple executions with same input...');
 
-  for (const [i, input] of testInputs.entries()) {
+  for (const [i, { input, expected }] of testInputs.entries()) {
     console.log(`\n--- Test ${i + 1}: ${JSON.stringify(input)} ---`);
 
     // Run the same workflow multiple times
@@ -216,12 +249,17 @@ async function demonstrateStatelessProperties(): Promise<void> {
     ]);
 
     // Verify all results are identical (stateless property)
-    const firstResult = JSON.stringify(results[0].result);
-    const allIdentical = results.every(r => JSON.stringify(r.result) === firstResult);
+    const firstResult = JSON.stringify(workflowOutput(results[0]));
+    const allIdentical = results.every(r => JSON.stringify(workflowOutput(r)) === firstResult);
 
     console.log(`All results identical: ${allIdentical ? '✅' : '❌'}`);
     console.log(`Result: ${firstResult}`);
+
+    expectations.check('Identical Results', allIdentical);
+    expectations.equal('Reduced Result', workflowOutput(results[0]), expected);
   }
+
+  expectations.verify();
 }
 
 // Demonstrate composability
@@ -270,9 +308,16 @@ async function demonstrateComposability(): Promise<void> {
     .commit();
 
   console.log('Executing composed workflow...');
-  const composedRun = composedWorkflow.createRun();
+  const composedRun = traceWorkflowRun(composedWorkflow.createRun());
   const result = await composedRun.start({ inputData: { values: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] } });
   console.log('Composed result:', result);
+
+  const expectations = new Expectations();
+  console.log('');
+  expectations.equal('Composed Output', result.status === 'success' ? result.result : undefined, {
+    formattedResult: 'Sum: 742, Count: 14, Average: 106.00'
+  });
+  expectations.verify();
 }
 
 // Demonstrate error handling in stateless workflows
@@ -314,31 +359,56 @@ async function demonstrateErrorHandling(): Promise<void> {
     .commit();
 
   const testCases = [
-    { name: 'Valid input', values: [1, 2, 3, 4, 5] },
-    { name: 'Empty array', values: [] },
-    { name: 'Negative numbers', values: [1, -2, 3] }
+    { name: 'Valid input', values: [1, 2, 3, 4, 5], expectedStatus: 'success' },
+    { name: 'Empty array', values: [], expectedStatus: 'failed' },
+    { name: 'Negative numbers', values: [1, -2, 3], expectedStatus: 'failed' }
   ];
+  const expectations = new Expectations();
 
   for (const testCase of testCases) {
     console.log(`\n--- Testing: ${testCase.name} ---`);
     try {
-      const errorRun = errorHandlingWorkflow.createRun();
+      const errorRun = traceWorkflowRun(errorHandlingWorkflow.createRun());
       const result = await errorRun.start({ inputData: { values: testCase.values } });
-      console.log('✅ Success:', result);
+
+      // A failing step fails the run; it is reported in the result rather than thrown
+      if (result.status === 'success') {
+        console.log('✅ Success:', result.result);
+      } else {
+        console.log(`❌ ${result.status === 'failed' ? String(result.error).split('\n')[0] : `Run ${result.status}`}`);
+        console.log('   Workflow remained stateless despite error');
+      }
+      expectations.equal('Run Status', result.status, testCase.expectedStatus);
     } catch (error) {
       console.log('❌ Error:', error instanceof Error ? error.message : 'Unknown error');
       console.log('   Workflow remained stateless despite error');
+      expectations.check('Run Status', false, error instanceof Error ? error.message : String(error));
     }
   }
+
+  expectations.verify();
 }
 
+export const scenarios: Scenario[] = [
+  { name: 'sequential-vs-parallel', description: 'Same input reduced sequentially and in parallel', run: demonstrateSequentialVsParallel },
+  { name: 'stateless-properties', description: 'Identical results for identical inputs', run: demonstrateStatelessProperties },
+  { name: 'composability', description: 'Workflows composed from stateless steps', run: demonstrateComposability },
+  { name: 'error-handling', description: 'Invalid inputs handled without shared state', run: demonstrateErrorHandling },
+];
+
 // Main execution function
 async function main(): Promise<void> {
+  console.log('Factor 12: Stateless Reducer');
+  console.log('================================================');
+  console.log('Demonstration: Stateless workflow execution with reducer patterns');
+  console.log('Key principle: Functions should be stateless and composable like reduce operations');
+  console.log('Reference: https://github.com/humanlayer/12-factor-agents/blob/main/content/factor-12-stateless-reducer.md');
+  console.log('');
+
   try {
-    await demonstrateSequentialVsParallel();
-    await demonstrateStatelessProperties();
-    await demonstrateComposability();
-    await demonstrateErrorHandling();
+    for (const scenario of scenarios) {
+      await scenario.run();
+    }
 
     console.log('\n✅ FACTOR 12 DEMONSTRATION COMPLETE');
     console.log('==================================');
@@ -356,4 +426,6 @@ async function main(): Promise<void> {
   }
 }
 
-main().catch(console.error);
+if (isMainModule(import.meta.url)) {
+  main().catch(console.error);
+}
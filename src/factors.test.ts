@@ -0,0 +1,24 @@
+import { afterAll, beforeAll, describe, it, vi } from 'vitest';
+
+import { FACTORS } from './factors';
+
+// Runs every scenario the way `pnpm verify` does, against the mock model set in vitest.config.ts.
+// A scenario fails the test when it throws, which includes any broken 🎯 expectation.
+const factors = await Promise.all(FACTORS.map(async factor => ({ ...factor, scenarios: (await factor.load()).scenarios })));
+
+for (const factor of factors) {
+  describe(`${factor.id} ${factor.title}`, () => {
+    // The demo output would bury the test report; failures still surface through the thrown error
+    beforeAll(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterAll(() => {
+      vi.restoreAllMocks();
+    });
+
+    for (const scenario of factor.scenarios) {
+      it(scenario.name, () => scenario.run(), 30_000);
+    }
+  });
+}
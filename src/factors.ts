@@ -0,0 +1,37 @@
+import type { Scenario } from './harness';
+
+// 📚 FACTORS
+// Every factor the CLI can list, run and verify, in order.
+
+export interface FactorEntry {
+  id: string;
+  title: string;
+  // Imported lazily so --model is applied before any factor creates its agents
+  load: () => Promise<{ scenarios: Scenario[] }>;
+}
+
+export const FACTORS: FactorEntry[] = [
+  { id: 'factor01', title: 'Natural Language to Tool Calls', load: () => import('./factor-01-natural-language-to-tool-calls/index') },
+  { id: 'factor02', title: 'Own Your Prompts', load: () => import('./factor-02-own-your-prompts/index') },
+  { id: 'factor03', title: 'Own Your Context Window', load: () => import('./factor-03-own-your-context-window/index') },
+  { id: 'factor04', title: 'Tools are Structured Outputs', load: () => import('./factor-04-tools-are-structured-outputs/index') },
+  { id: 'factor05', title: 'Unify Execution State and Business State', load: () => import('./factor-05-unify-execution-state/index') },
+  { id: 'factor06', title: 'Launch/Pause/Resume with Simple APIs', load: () => import('./factor-06-launch-pause-resume/index') },
+  { id: 'factor07', title: 'Contact Humans with Tools', load: () => import('./factor-07-contact-humans-with-tools/index') },
+  { id: 'factor08', title: 'Own Your Control Flow', load: () => import('./factor-08-own-your-control-flow/index') },
+  { id: 'factor09', title: 'Compact Errors into Context Window', load: () => import('./factor-09-compact-errors/index') },
+  { id: 'factor10', title: 'Small Focused Agents', load: () => import('./factor-10-small-focused-agents/index') },
+  { id: 'factor11', title: 'Trigger from Anywhere', load: () => import('./factor-11-trigger-from-anywhere/index') },
+  { id: 'factor12', title: 'Stateless Reducer', load: () => import('./factor-12-stateless-reducer/index') },
+];
+
+// Accepts "factor01", "01" and "1"
+export function findFactor(name: string): FactorEntry {
+  const number = name.replace(/^factor-?/i, '').padStart(2, '0');
+  const factor = FACTORS.find(candidate => candidate.id === `factor${number}`);
+
+  if (!factor) {
+    throw new Error(`Unknown factor "${name}". Expected one of: ${FACTORS.map(candidate => candidate.id).join(', ')}`);
+  }
+  return factor;
+}
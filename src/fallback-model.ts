@@ -0,0 +1,139 @@
+import { APICallError } from '@ai-sdk/provider';
+import type { LanguageModelV2, LanguageModelV2CallOptions, LanguageModelV2StreamPart } from '@ai-sdk/provider';
+
+import { tracer } from './trace';
+
+// 🔀 FALLBACK MODEL
+// Tries each model in order and moves on when a provider is rate-limited, failing or too slow.
+// Each attempt is reported as a trace event: fallback.failed when it moves on, fallback.served when it answers.
+
+export interface FallbackServedCall {
+  provider: string;
+  modelId: string;
+  attempts: Array<{ model: string; reason: string }>;
+}
+
+export interface FallbackModelOptions {
+  // Per-attempt timeout until the provider responds (for streams: until the stream opens)
+  timeoutMs?: number;
+  onServed?: (call: FallbackServedCall) => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+function describe(model: LanguageModelV2): string {
+  return `${model.provider}:${model.modelId}`;
+}
+
+// Only errors another provider could plausibly avoid: rate limits, server errors and timeouts.
+// Anything else (bad request, auth) is rethrown straight away.
+function fallbackReason(error: unknown, timedOut: boolean): string | undefined {
+  if (timedOut) return 'timeout';
+  if (APICallError.isInstance(error) && error.statusCode !== undefined) {
+    if (error.statusCode === 429) return 'HTTP 429 rate limited';
+    if (error.statusCode >= 500) return `HTTP ${error.statusCode}`;
+  }
+  return undefined;
+}
+
+// Surfaced to callers as result.providerMetadata.fallback
+function servedMetadata(served: FallbackServedCall) {
+  return { servedBy: `${served.provider}:${served.modelId}`, attempts: served.attempts };
+}
+
+export class FallbackModel implements LanguageModelV2 {
+  readonly specificationVersion = 'v2';
+  readonly provider = 'fallback';
+  readonly modelId: string;
+  readonly supportedUrls = {};
+
+  private models: LanguageModelV2[];
+  private timeoutMs: number;
+  private onServed?: (call: FallbackServedCall) => void;
+
+  constructor(models: LanguageModelV2[], options: FallbackModelOptions = {}) {
+    if (models.length === 0) {
+      throw new Error('FallbackModel needs at least one model');
+    }
+
+    this.models = models;
+    this.modelId = models.map(model => describe(model)).join(' > ');
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.onServed = options.onServed;
+  }
+
+  private async withFallback<T>(
+    options: LanguageModelV2CallOptions,
+    call: (model: LanguageModelV2, options: LanguageModelV2CallOptions) => PromiseLike<T>,
+  ): Promise<{ value: T; served: FallbackServedCall }> {
+    const attempts: FallbackServedCall['attempts'] = [];
+
+    for (const [index, model] of this.models.entries()) {
+      const controller = new AbortController();
+      const forwardAbort = () => controller.abort(options.abortSignal?.reason);
+      options.abortSignal?.addEventListener('abort', forwardAbort, { once: true });
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort(new Error(`${describe(model)} timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+
+      try {
+        const value = await call(model, { ...options, abortSignal: controller.signal });
+        const served = { provider: model.provider, modelId: model.modelId, attempts };
+
+        tracer.emit({ type: 'fallback.served', model: describe(model), attempts: [...attempts] });
+        this.onServed?.(served);
+
+        return { value, served };
+      } catch (error) {
+        const reason = fallbackReason(error, timedOut);
+        const isLast = index === this.models.length - 1;
+
+        if (!reason || isLast || options.abortSignal?.aborted) {
+          throw error;
+        }
+
+        tracer.emit({ type: 'fallback.failed', model: describe(model), reason });
+        attempts.push({ model: describe(model), reason });
+      } finally {
+        clearTimeout(timer);
+        // Also after a success, or a long-lived caller signal would collect one listener per call
+        options.abortSignal?.removeEventListener('abort', forwardAbort);
+      }
+    }
+
+    // Unreachable: the last model either returns or throws
+    throw new Error('FallbackModel exhausted all models');
+  }
+
+  async doGenerate(options: LanguageModelV2CallOptions) {
+    const { value, served } = await this.withFallback(options, (model, callOptions) => model.doGenerate(callOptions));
+
+    return {
+      ...value,
+      providerMetadata: { ...value.providerMetadata, fallback: servedMetadata(served) },
+    };
+  }
+
+  // Falls back only while opening the stream; once tokens flow, errors surface as stream parts
+  async doStream(options: LanguageModelV2CallOptions) {
+    const { value, served } = await this.withFallback(options, (model, callOptions) => model.doStream(callOptions));
+
+    return {
+      ...value,
+      stream: value.stream.pipeThrough(
+        new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+          transform(part, controller) {
+            controller.enqueue(
+              part.type === 'finish'
+                ? { ...part, providerMetadata: { ...part.providerMetadata, fallback: servedMetadata(served) } }
+                : part,
+            );
+          },
+        }),
+      ),
+    };
+  }
+}
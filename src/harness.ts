@@ -0,0 +1,85 @@
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+// 🎬 SCENARIO HARNESS
+// Each factor exports its scenarios as data; its main() and the CLI (src/cli.ts) both run them from there
+
+export interface Scenario {
+  // Kebab-case name used on the command line, e.g. `pnpm cli run factor01 ada-lovelace`
+  name: string;
+  description: string;
+  run: () => Promise<unknown>;
+}
+
+// True when the module at moduleUrl is the script being executed (pnpm factorXX),
+// false when it was imported (by the CLI)
+export function isMainModule(moduleUrl: string): boolean {
+  const entry = process.argv[1];
+  return entry !== undefined && pathToFileURL(path.resolve(entry)).href === moduleUrl;
+}
+
+export function findScenario(scenarios: Scenario[], name: string): Scenario {
+  const scenario = scenarios.find(candidate => candidate.name === name);
+
+  if (!scenario) {
+    throw new Error(`Unknown scenario "${name}". Expected one of: ${scenarios.map(candidate => candidate.name).join(', ')}`);
+  }
+  return scenario;
+}
+
+// ✅ SCENARIO EXPECTATIONS
+// Scenarios check their own outcomes as they run. Each check is printed as it happens and failures are
+// collected, so every case still runs before verify() fails the scenario (see `pnpm verify`).
+
+export class Expectations {
+  private failures: string[] = [];
+
+  check(label: string, passed: boolean, detail?: string): boolean {
+    console.log(`🎯 ${label}: ${passed ? '✅' : `❌${detail ? ` ${detail}` : ''}`}`);
+    if (!passed) this.failures.push(detail ? `${label} (${detail})` : label);
+    return passed;
+  }
+
+  equal(label: string, actual: unknown, expected: unknown): boolean {
+    const actualJson = JSON.stringify(actual);
+    const expectedJson = JSON.stringify(expected);
+    return this.check(label, actualJson === expectedJson, `expected ${expectedJson}, got ${actualJson}`);
+  }
+
+  verify() {
+    if (this.failures.length > 0) {
+      throw new Error(`${this.failures.length} expectation(s) failed: ${this.failures.join('; ')}`);
+    }
+  }
+}
+
+// 🔧 TOOL CALLS
+
+export interface ToolCall {
+  tool: string;
+  args: unknown;
+  result: unknown;
+}
+
+interface ToolResultChunk {
+  toolName?: string;
+  args?: unknown;
+  result?: unknown;
+  payload?: { toolName: string; args: unknown; result: unknown };
+}
+
+// generateVNext returns the tool results of every step as stream chunks, { type: 'tool-result', payload },
+// although its types describe the fields at the top level; both shapes are read here.
+// With tools given, each call is named by its tool id (as scenarios name them) instead of the key the model saw.
+export function toolCallsOf(result: { toolResults?: unknown[] }, tools?: Record<string, { id: string }>): ToolCall[] {
+  return (result.toolResults ?? []).map(chunk => {
+    const { payload, ...flat } = chunk as ToolResultChunk;
+    const key = payload?.toolName ?? flat.toolName ?? 'unknown';
+
+    return {
+      tool: tools?.[key]?.id ?? key,
+      args: payload ? payload.args : flat.args,
+      result: payload ? payload.result : flat.result,
+    };
+  });
+}
@@ -0,0 +1,137 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { appendFileSync, mkdirSync } from 'node:fs';
+import path from 'node:path';
+
+import type {
+  JSONSchema7,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Message,
+  LanguageModelV2Prompt,
+  LanguageModelV2ToolChoice,
+} from '@ai-sdk/provider';
+import type { LanguageModelMiddleware } from 'ai';
+
+// 🔎 REQUEST INSPECTION
+// An agent's instructions are only part of what the model receives. Mastra adds the user message, memory
+// (earlier turns and tool results) and the tools as JSON schemas before the call reaches the provider.
+// Every call made through modelFor(agentName) can be captured exactly as the provider gets it:
+//   inspectRequests(() => agent.generateVNext(...))   captures the calls made inside, to print or check
+//   INSPECT_REQUESTS_FILE=path/to/requests.jsonl        appends every request of the run, one per line
+
+export interface InspectedTool {
+  name: string;
+  description?: string;
+  // Function tools only; provider-defined tools are configured by the provider itself
+  inputSchema?: JSONSchema7;
+}
+
+export interface ProviderRequest {
+  agent: string;
+  model: string;
+  type: 'generate' | 'stream';
+  messages: LanguageModelV2Prompt;
+  tools: InspectedTool[];
+  toolChoice?: LanguageModelV2ToolChoice;
+  responseFormat?: LanguageModelV2CallOptions['responseFormat'];
+  // Sampling settings that were set, e.g. { temperature: 0.2 }
+  settings: Record<string, unknown>;
+}
+
+const SETTINGS = ['temperature', 'maxOutputTokens', 'topP', 'topK', 'presencePenalty', 'frequencyPenalty', 'stopSequences', 'seed'] as const;
+
+function toProviderRequest(agent: string, model: string, type: 'generate' | 'stream', params: LanguageModelV2CallOptions): ProviderRequest {
+  return {
+    agent,
+    model,
+    type,
+    // A deep copy, so later steps of the agent loop cannot change a captured request
+    messages: structuredClone(params.prompt),
+    tools: (params.tools ?? []).map(tool => (tool.type === 'function'
+      ? { name: tool.name, description: tool.description, inputSchema: structuredClone(tool.inputSchema) }
+      : { name: tool.name, description: `provider-defined tool ${tool.id}` })),
+    toolChoice: params.toolChoice,
+    responseFormat: params.responseFormat,
+    settings: Object.fromEntries(SETTINGS.filter(setting => params[setting] !== undefined).map(setting => [setting, params[setting]])),
+  };
+}
+
+const captures = new AsyncLocalStorage<ProviderRequest[]>();
+const requestsFile = process.env.INSPECT_REQUESTS_FILE;
+if (requestsFile) mkdirSync(path.dirname(requestsFile), { recursive: true });
+
+// Sits last before the record/replay cache, so it sees the parameters every other middleware has passed on
+export function requestInspectionMiddleware(agentName: string): LanguageModelMiddleware {
+  return {
+    transformParams: async ({ params, type, model }) => {
+      const capture = captures.getStore();
+      if (capture || requestsFile) {
+        const request = toProviderRequest(agentName, `${model.provider}:${model.modelId}`, type, params);
+        capture?.push(request);
+        if (requestsFile) appendFileSync(requestsFile, `${JSON.stringify(request)}\n`);
+      }
+      return params;
+    },
+  };
+}
+
+// Runs call and returns every model request made inside it, one per step of the agent loop
+export async function inspectRequests<T>(call: () => Promise<T>): Promise<{ result: T; requests: ProviderRequest[] }> {
+  const requests: ProviderRequest[] = [];
+  const result = await captures.run(requests, call);
+  return { result, requests };
+}
+
+// 🖨️ RENDERING
+
+function messageParts(message: LanguageModelV2Message): string[] {
+  if (message.role === 'system') return [message.content];
+
+  return message.content.map(part => {
+    switch (part.type) {
+      case 'text':
+      case 'reasoning': {
+        return part.type === 'text' ? part.text : `(reasoning) ${part.text}`;
+      }
+      case 'file': {
+        return `(file ${part.mediaType}${part.filename ? ` ${part.filename}` : ''})`;
+      }
+      case 'tool-call': {
+        return `(tool call ${part.toolName} ${part.toolCallId}) ${JSON.stringify(part.input)}`;
+      }
+      case 'tool-result': {
+        return `(tool result ${part.toolName} ${part.toolCallId}) ${JSON.stringify(part.output)}`;
+      }
+    }
+  });
+}
+
+// Text of every message with the given role, in order
+export function messageTexts(request: ProviderRequest, role: LanguageModelV2Message['role']): string[] {
+  return request.messages.filter(message => message.role === role).map(message => messageParts(message).join('\n'));
+}
+
+const indent = (text: string, prefix: string) => text.split('\n').map(line => `${prefix}${line}`).join('\n');
+
+export function printProviderRequest(request: ProviderRequest, { schemas = true }: { schemas?: boolean } = {}) {
+  const settings = Object.entries(request.settings).map(([name, value]) => `${name}=${JSON.stringify(value)}`);
+
+  console.log(`\n🔎 Request from ${request.agent} to ${request.model} (${request.type})`);
+  if (settings.length > 0) console.log(`   Settings: ${settings.join(', ')}`);
+  if (request.responseFormat?.type === 'json') console.log(`   Response format: json${schemas && request.responseFormat.schema ? ' (schema below)' : ''}`);
+
+  console.log(`\n   Messages (${request.messages.length}):`);
+  for (const [index, message] of request.messages.entries()) {
+    console.log(`   ${String(index + 1).padStart(2)}. [${message.role}]`);
+    console.log(indent(messageParts(message).join('\n'), '       '));
+  }
+
+  console.log(`\n   Tools (${request.tools.length})${request.toolChoice ? `, choice: ${JSON.stringify(request.toolChoice)}` : ''}:`);
+  for (const tool of request.tools) {
+    console.log(`   - ${tool.name}: ${tool.description ?? '(no description)'}`);
+    if (schemas && tool.inputSchema) console.log(indent(JSON.stringify(tool.inputSchema, undefined, 2), '       '));
+  }
+  if (schemas && request.responseFormat?.type === 'json' && request.responseFormat.schema) {
+    console.log('\n   Response schema:');
+    console.log(indent(JSON.stringify(request.responseFormat.schema, undefined, 2), '       '));
+  }
+}
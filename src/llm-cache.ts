@@ -0,0 +1,219 @@
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+
+import type {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2StreamPart,
+  SharedV2ProviderMetadata,
+} from '@ai-sdk/provider';
+import type { LanguageModelMiddleware } from 'ai';
+
+// 📼 RECORD / REPLAY CACHE
+// LLM_CACHE=record stores every request/response pair, LLM_CACHE=replay serves them back without calling the provider
+
+export type CacheMode = 'record' | 'replay' | 'off';
+
+type DoGenerateResult = Awaited<ReturnType<LanguageModelV2['doGenerate']>>;
+
+interface CacheEntry {
+  model: string;
+  recordedAt: string;
+  // First characters of the latest user message, to make the file readable
+  preview: string;
+  response:
+    | { type: 'generate'; result: DoGenerateResult }
+    | { type: 'stream'; parts: LanguageModelV2StreamPart[] };
+}
+
+interface CacheFile {
+  version: 1;
+  entries: Record<string, CacheEntry>;
+}
+
+export const DEFAULT_CACHE_FILE = 'llm-cache.json';
+
+export function parseCacheMode(value: string | undefined): CacheMode {
+  if (value === undefined || value === '' || value === 'off') return 'off';
+  if (value === 'record' || value === 'replay') return value;
+  throw new Error(`Invalid LLM_CACHE value "${value}". Expected record, replay or off`);
+}
+
+// Tool results and memory often carry timestamps and ids that change on every run
+function normalizeText(text: string): string {
+  return text
+    .replaceAll(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z/g, '<timestamp>')
+    .replaceAll(/[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}/gi, '<uuid>')
+    .replaceAll(/\s+/g, ' ')
+    .trim();
+}
+
+export function cacheKey(model: LanguageModelV2, params: LanguageModelV2CallOptions): string {
+  const request = {
+    model: `${model.provider}:${model.modelId}`,
+    prompt: params.prompt.map(message => ({
+      role: message.role,
+      content: typeof message.content === 'string'
+        ? normalizeText(message.content)
+        : normalizeText(JSON.stringify(message.content, (key, value) => (key === 'providerOptions' ? undefined : value))),
+    })),
+    tools: (params.tools ?? []).map(tool => tool.type === 'function'
+      ? { name: tool.name, description: tool.description, inputSchema: tool.inputSchema }
+      : { name: tool.name, id: tool.id }),
+    toolChoice: params.toolChoice,
+    responseFormat: params.responseFormat,
+  };
+
+  return createHash('sha256').update(JSON.stringify(request)).digest('hex');
+}
+
+function previewOf(params: LanguageModelV2CallOptions): string {
+  const lastUser = params.prompt[params.prompt.map(message => message.role).lastIndexOf('user')];
+  const text = lastUser?.role === 'user' ? lastUser.content.map(part => (part.type === 'text' ? part.text : '')).join('') : '';
+  return text.slice(0, 80);
+}
+
+// Replayed responses say so in their provider metadata, so usage tracking does not bill them (see usage.ts)
+function markCacheHit(providerMetadata: SharedV2ProviderMetadata | undefined): SharedV2ProviderMetadata {
+  return { ...providerMetadata, llmCache: { hit: true } };
+}
+
+export function isCacheHit(providerMetadata: SharedV2ProviderMetadata | undefined): boolean {
+  return providerMetadata?.llmCache?.hit === true;
+}
+
+// A recorded response as it is replayed: JSON turned its Dates into strings, and the AI SDK expects response
+// timestamps as Dates. It is also marked as a cache hit.
+function replayedResult(result: DoGenerateResult): DoGenerateResult {
+  const response = result.response?.timestamp === undefined
+    ? result.response
+    : { ...result.response, timestamp: new Date(result.response.timestamp) };
+  return { ...result, response, providerMetadata: markCacheHit(result.providerMetadata) };
+}
+
+function replayedParts(parts: LanguageModelV2StreamPart[]): LanguageModelV2StreamPart[] {
+  return parts.map(part => {
+    if (part.type === 'response-metadata' && part.timestamp !== undefined) return { ...part, timestamp: new Date(part.timestamp) };
+    if (part.type === 'finish') return { ...part, providerMetadata: markCacheHit(part.providerMetadata) };
+    return part;
+  });
+}
+
+export class LlmCache {
+  private file?: CacheFile;
+
+  constructor(
+    readonly mode: CacheMode,
+    readonly path: string = DEFAULT_CACHE_FILE,
+  ) {}
+
+  // Read on first use, so runs with the cache off never touch the file
+  private load(): CacheFile {
+    if (!this.file) {
+      try {
+        this.file = existsSync(this.path)
+          ? JSON.parse(readFileSync(this.path, 'utf8')) as CacheFile
+          : { version: 1, entries: {} };
+      } catch (error) {
+        throw new Error(`[📼 Cache] Cannot read ${this.path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return this.file;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    return this.load().entries[key];
+  }
+
+  set(key: string, entry: CacheEntry) {
+    const file = this.load();
+    file.entries[key] = entry;
+    // Written on every record so an interrupted run keeps what it already paid for
+    writeFileSync(this.path, `${JSON.stringify(file, null, 2)}\n`);
+  }
+
+  size(): number {
+    return Object.keys(this.load().entries).length;
+  }
+
+  middleware(): LanguageModelMiddleware {
+    const lookup = (model: LanguageModelV2, params: LanguageModelV2CallOptions) => {
+      const key = cacheKey(model, params);
+      const entry = this.get(key);
+
+      if (!entry) {
+        throw new Error(`[📼 Cache] No recorded response for "${previewOf(params)}" on ${model.provider}:${model.modelId}. Run with LLM_CACHE=record first.`);
+      }
+      return entry;
+    };
+
+    return {
+      wrapGenerate: async ({ doGenerate, params, model }) => {
+        if (this.mode === 'replay') {
+          const entry = lookup(model, params);
+          if (entry.response.type === 'generate') return replayedResult(entry.response.result);
+          throw new Error(`[📼 Cache] Entry for "${entry.preview}" was recorded from a stream, not a generate call`);
+        }
+
+        const result = await doGenerate();
+        if (this.mode === 'record') {
+          this.set(cacheKey(model, params), {
+            model: `${model.provider}:${model.modelId}`,
+            recordedAt: new Date().toISOString(),
+            preview: previewOf(params),
+            response: { type: 'generate', result },
+          });
+        }
+        return result;
+      },
+
+      wrapStream: async ({ doStream, params, model }) => {
+        if (this.mode === 'replay') {
+          const entry = lookup(model, params);
+          if (entry.response.type !== 'stream') {
+            throw new Error(`[📼 Cache] Entry for "${entry.preview}" was recorded from a generate call, not a stream`);
+          }
+
+          const parts = replayedParts(entry.response.parts);
+          return {
+            stream: new ReadableStream<LanguageModelV2StreamPart>({
+              start(controller) {
+                for (const part of parts) controller.enqueue(part);
+                controller.close();
+              },
+            }),
+          };
+        }
+
+        const { stream, ...rest } = await doStream();
+        if (this.mode !== 'record') return { stream, ...rest };
+
+        const key = cacheKey(model, params);
+        const parts: LanguageModelV2StreamPart[] = [];
+
+        return {
+          ...rest,
+          stream: stream.pipeThrough(
+            new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+              transform(part, controller) {
+                parts.push(part);
+                controller.enqueue(part);
+              },
+              flush: () => {
+                // Never replay a failed call
+                if (parts.some(part => part.type === 'error')) return;
+
+                this.set(key, {
+                  model: `${model.provider}:${model.modelId}`,
+                  recordedAt: new Date().toISOString(),
+                  preview: previewOf(params),
+                  response: { type: 'stream', parts: parts.filter(part => part.type !== 'raw') },
+                });
+              },
+            }),
+          ),
+        };
+      },
+    };
+  }
+}
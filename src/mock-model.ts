@@ -0,0 +1,180 @@
+import { readFileSync } from 'node:fs';
+
+import type {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Content,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+  LanguageModelV2Usage,
+} from '@ai-sdk/provider';
+import { z } from 'zod';
+
+// 🎭 SCRIPTED MOCK MODEL
+// Replays canned text and tool calls from a fixture so every factor can run offline
+
+const mockTurnSchema = z.object({
+  text: z.string().optional(),
+  toolCalls: z
+    .array(
+      z.object({
+        toolName: z.string(),
+        args: z.record(z.string(), z.unknown()),
+      }),
+    )
+    .optional(),
+});
+
+const mockFixtureSchema = z.object({
+  // Case-insensitive substring of the latest user message
+  prompt: z.string().optional(),
+  // Case-insensitive substring of the system instructions
+  instructions: z.string().optional(),
+  // One turn per model call: tool-call turns first, the final answer last
+  turns: z.array(mockTurnSchema).min(1),
+});
+
+const mockFixtureFileSchema = z.object({
+  fixtures: z.array(mockFixtureSchema),
+});
+
+export type MockTurn = z.infer<typeof mockTurnSchema>;
+export type MockFixture = z.infer<typeof mockFixtureSchema>;
+
+export const DEFAULT_MOCK_FIXTURES = new URL('fixtures/mock-model.json', import.meta.url);
+
+export function loadMockFixtures(path: string | URL = DEFAULT_MOCK_FIXTURES): MockFixture[] {
+  const raw = JSON.parse(readFileSync(path, 'utf8'));
+  return mockFixtureFileSchema.parse(raw).fixtures;
+}
+
+function messageText(content: LanguageModelV2Prompt[number]['content']): string {
+  if (typeof content === 'string') return content;
+  return content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join('');
+}
+
+// Rough, deterministic token estimate (~4 characters per token)
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export class ScriptedMockModel implements LanguageModelV2 {
+  readonly specificationVersion = 'v2';
+  readonly provider = 'mock';
+  readonly modelId: string;
+  readonly supportedUrls = {};
+
+  private fixtures: MockFixture[];
+  private callCounter = 0;
+
+  constructor(fixtures: MockFixture[], modelId = 'scripted') {
+    this.fixtures = fixtures;
+    this.modelId = modelId;
+  }
+
+  // Picks the fixture and the turn within it for the given prompt.
+  // The turn index is the number of assistant tool-call rounds since the latest user message.
+  resolveTurn(prompt: LanguageModelV2Prompt): MockTurn {
+    const lastUserIndex = prompt.map(message => message.role).lastIndexOf('user');
+    const lastUser = prompt[lastUserIndex];
+    const userText = lastUser ? messageText(lastUser.content).toLowerCase() : '';
+    const instructions = prompt
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n')
+      .toLowerCase();
+
+    const fixture = this.fixtures.find(candidate =>
+      (candidate.prompt === undefined || userText.includes(candidate.prompt.toLowerCase())) &&
+      (candidate.instructions === undefined || instructions.includes(candidate.instructions.toLowerCase()))
+    );
+
+    // A missing fixture fails the call, so it cannot pass unnoticed in `pnpm verify`
+    if (!fixture) {
+      throw new Error(
+        `No mock fixture matched the prompt "${userText.slice(0, 120)}" ` +
+        `(instructions: "${instructions.slice(0, 80)}"). Add one to src/fixtures/mock-model.json`,
+      );
+    }
+
+    const toolRounds = prompt
+      .slice(lastUserIndex + 1)
+      .filter(message => message.role === 'assistant' && message.content.some(part => part.type === 'tool-call'))
+      .length;
+
+    return fixture.turns[Math.min(toolRounds, fixture.turns.length - 1)] ?? {};
+  }
+
+  private buildContent(turn: MockTurn): LanguageModelV2Content[] {
+    const content: LanguageModelV2Content[] = [];
+
+    if (turn.text) {
+      content.push({ type: 'text', text: turn.text });
+    }
+
+    for (const toolCall of turn.toolCalls ?? []) {
+      this.callCounter++;
+      content.push({
+        type: 'tool-call',
+        toolCallId: `mock-call-${this.callCounter}`,
+        toolName: toolCall.toolName,
+        input: JSON.stringify(toolCall.args),
+      });
+    }
+
+    return content;
+  }
+
+  private buildUsage(options: LanguageModelV2CallOptions, turn: MockTurn): LanguageModelV2Usage {
+    const inputTokens = estimateTokens(JSON.stringify(options.prompt));
+    const outputTokens = estimateTokens((turn.text ?? '') + JSON.stringify(turn.toolCalls ?? []));
+    return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+  }
+
+  async doGenerate(options: LanguageModelV2CallOptions) {
+    const turn = this.resolveTurn(options.prompt);
+    const content = this.buildContent(turn);
+
+    return {
+      content,
+      finishReason: turn.toolCalls?.length ? 'tool-calls' as const : 'stop' as const,
+      usage: this.buildUsage(options, turn),
+      warnings: [],
+    };
+  }
+
+  async doStream(options: LanguageModelV2CallOptions) {
+    const { content, finishReason, usage } = await this.doGenerate(options);
+
+    const parts: LanguageModelV2StreamPart[] = [
+      { type: 'stream-start', warnings: [] },
+      { type: 'response-metadata', id: `mock-response-${this.callCounter}`, modelId: this.modelId, timestamp: new Date(0) },
+    ];
+
+    for (const [index, part] of content.entries()) {
+      if (part.type === 'text') {
+        const id = `mock-text-${index}`;
+        parts.push(
+          { type: 'text-start', id },
+          { type: 'text-delta', id, delta: part.text },
+          { type: 'text-end', id },
+        );
+      } else if (part.type === 'tool-call') {
+        parts.push(part);
+      }
+    }
+
+    parts.push({ type: 'finish', finishReason, usage });
+
+    return {
+      stream: new ReadableStream<LanguageModelV2StreamPart>({
+        start(controller) {
+          for (const part of parts) controller.enqueue(part);
+          controller.close();
+        },
+      }),
+    };
+  }
+}
@@ -1,9 +1,18 @@
 import 'dotenv/config';
 
+import { wrapLanguageModel } from 'ai';
 import { ollama } from 'ai-sdk-ollama';
 
 import { groq } from '@ai-sdk/groq';
 import { mistral } from '@ai-sdk/mistral';
+import type { LanguageModelV2 } from '@ai-sdk/provider';
+
+import { FallbackModel } from './fallback-model';
+import { requestInspectionMiddleware } from './inspect';
+import { DEFAULT_CACHE_FILE, LlmCache, parseCacheMode } from './llm-cache';
+import { loadMockFixtures, ScriptedMockModel } from './mock-model';
+import { telemetryMiddleware } from './telemetry';
+import { usageTrackingMiddleware } from './usage';
 
 export const groqModel = groq('llama-3.3-70b-versatile');
 
@@ -15,4 +24,162 @@ export const qwen3 = ollama('qwen3:latest', {
 export const llama3_2 = ollama('llama3.2:latest', {
   structuredOutputs: true,
 });
-export const model = mistralModel;
+
+// Offline, deterministic model: MODEL=mock (optionally MOCK_FIXTURES=path/to/fixtures.json)
+export function createMockModel(fixturesPath = process.env.MOCK_FIXTURES) {
+  return new ScriptedMockModel(loadMockFixtures(fixturesPath));
+}
+
+// Ordered fallback chain: MODEL=fallback (optionally FALLBACK_TIMEOUT_MS=15000)
+// Providers without an API key are left out of the chain
+const FALLBACK_CHAIN: Array<{ model: LanguageModelV2; apiKeyEnv?: string }> = [
+  { model: mistralModel, apiKeyEnv: 'MISTRAL_API_KEY' },
+  { model: groqModel, apiKeyEnv: 'GROQ_API_KEY' },
+  { model: qwen3 },
+];
+
+export function createFallbackModel(timeoutMs = Number(process.env.FALLBACK_TIMEOUT_MS) || undefined) {
+  const models = FALLBACK_CHAIN
+    .filter(({ apiKeyEnv }) => !apiKeyEnv || process.env[apiKeyEnv])
+    .map(({ model }) => model);
+
+  return new FallbackModel(models, { timeoutMs });
+}
+
+// 🗂️ MODEL REGISTRY
+// Models are picked from the environment as "provider:model-id", e.g.
+//   MODEL=groq:llama-3.3-70b-versatile
+//   AGENT_MODELS=ReviewAgent=ollama:qwen3:latest,PlanningAgent=mistral:mistral-large-latest
+
+interface ProviderEntry {
+  defaultModelId: string;
+  apiKeyEnv?: string;
+  create: (modelId: string) => LanguageModelV2;
+}
+
+const PROVIDERS: Record<string, ProviderEntry> = {
+  mistral: {
+    defaultModelId: 'mistral-small-latest',
+    apiKeyEnv: 'MISTRAL_API_KEY',
+    create: modelId => mistral(modelId),
+  },
+  groq: {
+    defaultModelId: 'llama-3.3-70b-versatile',
+    apiKeyEnv: 'GROQ_API_KEY',
+    create: modelId => groq(modelId),
+  },
+  ollama: {
+    defaultModelId: 'qwen3:latest',
+    create: modelId => ollama(modelId, { structuredOutputs: true }),
+  },
+  mock: {
+    defaultModelId: 'scripted',
+    create: () => createMockModel(),
+  },
+  fallback: {
+    defaultModelId: 'chain',
+    create: () => createFallbackModel(),
+  },
+};
+
+export const DEFAULT_MODEL_SPEC = 'mistral:mistral-small-latest';
+
+export interface ModelSpec {
+  provider: string;
+  modelId: string;
+}
+
+export function parseModelSpec(spec: string): ModelSpec {
+  // Only split on the first colon: Ollama ids such as "qwen3:latest" contain one too
+  const separator = spec.indexOf(':');
+  const provider = (separator === -1 ? spec : spec.slice(0, separator)).trim();
+  const entry = PROVIDERS[provider];
+
+  if (!entry) {
+    throw new Error(`Unknown model provider "${provider}" in "${spec}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`);
+  }
+
+  const modelId = separator === -1 ? entry.defaultModelId : spec.slice(separator + 1).trim();
+  return { provider, modelId: modelId || entry.defaultModelId };
+}
+
+export function parseAgentModels(value: string | undefined): Record<string, string> {
+  const overrides: Record<string, string> = {};
+
+  for (const pair of (value ?? '').split(',')) {
+    if (pair.trim() === '') continue;
+
+    const separator = pair.indexOf('=');
+    if (separator === -1) {
+      throw new Error(`Invalid AGENT_MODELS entry "${pair}". Expected AgentName=provider:model-id`);
+    }
+    overrides[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+  }
+
+  return overrides;
+}
+
+function validateModelSpec({ provider, modelId }: ModelSpec) {
+  const apiKeyEnv = PROVIDERS[provider]?.apiKeyEnv;
+  if (apiKeyEnv && !process.env[apiKeyEnv]) {
+    throw new Error(`Model "${provider}:${modelId}" requires ${apiKeyEnv} to be set (see .env.example)`);
+  }
+}
+
+const defaultSpec = parseModelSpec(process.env.MODEL || DEFAULT_MODEL_SPEC);
+const agentSpecs = Object.fromEntries(
+  Object.entries(parseAgentModels(process.env.AGENT_MODELS)).map(([agentName, spec]) => [agentName, parseModelSpec(spec)]),
+);
+
+// Record/replay cache: LLM_CACHE=record|replay (optionally LLM_CACHE_FILE=path/to/cache.json)
+export const llmCache = new LlmCache(parseCacheMode(process.env.LLM_CACHE), process.env.LLM_CACHE_FILE || DEFAULT_CACHE_FILE);
+
+// Fail at startup rather than on the first agent call.
+// Replays never reach the provider, so they run without API keys.
+if (llmCache.mode !== 'replay') {
+  for (const spec of [defaultSpec, ...Object.values(agentSpecs)]) {
+    validateModelSpec(spec);
+  }
+}
+
+const modelCache = new Map<string, LanguageModelV2>();
+
+export function resolveModel(spec: ModelSpec): LanguageModelV2 {
+  const key = `${spec.provider}:${spec.modelId}`;
+  let resolved = modelCache.get(key);
+
+  if (!resolved) {
+    resolved = PROVIDERS[spec.provider]!.create(spec.modelId);
+    modelCache.set(key, resolved);
+  }
+
+  return resolved;
+}
+
+const agentModels = new Map<string, LanguageModelV2>();
+
+// Model for a named agent: its AGENT_MODELS override if set, otherwise the default MODEL.
+// Token usage of every call is recorded against the agent name (see usage.ts).
+// Each call gets an OpenTelemetry span, replayed calls included (see telemetry.ts).
+// Requests can be captured exactly as the provider receives them (see inspect.ts).
+// With LLM_CACHE set, calls are recorded to or replayed from the cache underneath (see llm-cache.ts).
+// An explicit spec overrides both, for runs that compare models on the same agent (see factor 01's evaluation).
+export function modelFor(agentName: string, spec?: string): LanguageModelV2 {
+  const key = spec ? `${agentName}@${spec}` : agentName;
+  let agentModel = agentModels.get(key);
+
+  if (!agentModel) {
+    const modelSpec = spec ? parseModelSpec(spec) : agentSpecs[agentName] ?? defaultSpec;
+    if (spec && llmCache.mode !== 'replay') validateModelSpec(modelSpec);
+
+    agentModel = wrapLanguageModel({
+      model: resolveModel(modelSpec),
+      middleware: llmCache.mode === 'off'
+        ? [usageTrackingMiddleware(agentName), telemetryMiddleware(), requestInspectionMiddleware(agentName)]
+        : [usageTrackingMiddleware(agentName), telemetryMiddleware(), requestInspectionMiddleware(agentName), llmCache.middleware()],
+    });
+    agentModels.set(key, agentModel);
+  }
+
+  return agentModel;
+}
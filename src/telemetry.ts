@@ -0,0 +1,181 @@
+import { appendFileSync, mkdirSync } from 'node:fs';
+import path from 'node:path';
+
+import { context, SpanStatusCode, trace, type Attributes, type Span } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { ExportResultCode, hrTimeToMilliseconds, type ExportResult } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+  type SpanExporter,
+} from '@opentelemetry/sdk-trace-base';
+import type { LanguageModelV2StreamPart, LanguageModelV2Usage } from '@ai-sdk/provider';
+import type { LanguageModelMiddleware } from 'ai';
+
+// 📡 OPENTELEMETRY SPANS
+// OTEL_TRACES_EXPORTER picks where spans go; without it every span is a no-op:
+//   otlp     OTLP/HTTP collector (OTEL_EXPORTER_OTLP_ENDPOINT, default http://localhost:4318)
+//   file     JSONL file at OTEL_TRACES_FILE (default traces/spans.jsonl), for offline checks
+//   console  printed to stdout
+
+export const DEFAULT_SPANS_FILE = 'traces/spans.jsonl';
+
+// One JSON object per span, one span per line
+export class FileSpanExporter implements SpanExporter {
+  constructor(private readonly filePath: string) {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void) {
+    try {
+      appendFileSync(this.filePath, spans.map(span => `${JSON.stringify(serializeSpan(span))}\n`).join(''));
+      resultCallback({ code: ExportResultCode.SUCCESS });
+    } catch (error) {
+      resultCallback({ code: ExportResultCode.FAILED, error: error instanceof Error ? error : new Error(String(error)) });
+    }
+  }
+
+  async shutdown() {}
+}
+
+function serializeSpan(span: ReadableSpan) {
+  return {
+    traceId: span.spanContext().traceId,
+    spanId: span.spanContext().spanId,
+    parentSpanId: span.parentSpanContext?.spanId,
+    name: span.name,
+    startTime: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+    durationMs: hrTimeToMilliseconds(span.duration),
+    status: span.status,
+    attributes: span.attributes,
+    links: span.links.map(link => ({ traceId: link.context.traceId, spanId: link.context.spanId })),
+  };
+}
+
+function createExporter(name: string): SpanExporter {
+  switch (name) {
+    case 'otlp': {
+      return new OTLPTraceExporter();
+    }
+    case 'file': {
+      return new FileSpanExporter(process.env.OTEL_TRACES_FILE || DEFAULT_SPANS_FILE);
+    }
+    case 'console': {
+      return new ConsoleSpanExporter();
+    }
+    default: {
+      throw new Error(`Unknown OTEL_TRACES_EXPORTER "${name}". Expected otlp, file, console or none`);
+    }
+  }
+}
+
+const TRACER_NAME = 'mastra-12-factor-examples';
+
+function createTracer() {
+  const exporterName = process.env.OTEL_TRACES_EXPORTER;
+  if (!exporterName || exporterName === 'none') return trace.getTracer(TRACER_NAME);
+
+  const exporter = createExporter(exporterName);
+  const provider = new BasicTracerProvider({
+    resource: resourceFromAttributes({ 'service.name': process.env.OTEL_SERVICE_NAME || TRACER_NAME }),
+    // Local exporters write each span as it ends; the collector gets batches
+    spanProcessors: [exporterName === 'otlp' ? new BatchSpanProcessor(exporter) : new SimpleSpanProcessor(exporter)],
+  });
+
+  // The provider is deliberately not registered globally: Mastra traces its internals through the global
+  // API, and those spans would bury ours. Only the context manager is global, so parent spans propagate.
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+
+  // Flush batched spans before the process exits; an unreachable collector should not fail the run
+  process.once('beforeExit', () => {
+    provider.shutdown().catch((error: unknown) => {
+      console.error(`[📡 Telemetry] Could not export spans: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  });
+
+  return provider.getTracer(TRACER_NAME);
+}
+
+export const otelTracer = createTracer();
+
+export function recordSpanError(span: Span, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  span.recordException(error instanceof Error ? error : message);
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
+
+// Runs fn inside an active span, so spans started within it (tool calls, model calls) become its children
+export function inSpan<T>(name: string, attributes: Attributes, fn: (span: Span) => Promise<T>): Promise<T> {
+  return otelTracer.startActiveSpan(name, { attributes }, async span => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+export function usageAttributes(usage: Partial<LanguageModelV2Usage> | undefined): Attributes {
+  return {
+    'gen_ai.usage.input_tokens': usage?.inputTokens,
+    'gen_ai.usage.output_tokens': usage?.outputTokens,
+  };
+}
+
+// One span per model call, named and attributed after the OpenTelemetry GenAI conventions
+export function telemetryMiddleware(): LanguageModelMiddleware {
+  const callAttributes = (model: { provider: string; modelId: string }): Attributes => ({
+    'gen_ai.operation.name': 'chat',
+    'gen_ai.system': model.provider,
+    'gen_ai.request.model': model.modelId,
+  });
+
+  return {
+    wrapGenerate: ({ doGenerate, model }) =>
+      inSpan(`chat ${model.modelId}`, callAttributes(model), async span => {
+        const result = await doGenerate();
+        span.setAttributes({ ...usageAttributes(result.usage), 'gen_ai.response.finish_reasons': [result.finishReason] });
+        return result;
+      }),
+
+    // The span stays open until the stream finishes, so it covers the whole response
+    wrapStream: async ({ doStream, model }) => {
+      const span = otelTracer.startSpan(`chat ${model.modelId}`, { attributes: callAttributes(model) });
+
+      try {
+        const { stream, ...rest } = await doStream();
+
+        return {
+          ...rest,
+          stream: stream.pipeThrough(
+            new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+              transform(part, controller) {
+                if (part.type === 'finish') {
+                  span.setAttributes({ ...usageAttributes(part.usage), 'gen_ai.response.finish_reasons': [part.finishReason] });
+                } else if (part.type === 'error') {
+                  recordSpanError(span, part.error);
+                }
+                controller.enqueue(part);
+              },
+              flush() {
+                span.end();
+              },
+            }),
+          ),
+        };
+      } catch (error) {
+        recordSpanError(span, error);
+        span.end();
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,274 @@
+import { randomUUID } from 'node:crypto';
+import { appendFileSync, mkdirSync } from 'node:fs';
+import path from 'node:path';
+
+import type { Span, SpanContext } from '@opentelemetry/api';
+import type { Run } from '@mastra/core/workflows';
+
+import { inSpan, otelTracer, recordSpanError, usageAttributes } from './telemetry';
+
+// 🧵 TRACE EVENTS
+// Factors report what happens (agent calls, tool calls, workflow steps) as typed events.
+// The console renderer is one consumer; TRACE_FILE=path/to/run.jsonl adds a JSONL file.
+
+export type TraceEvent =
+  | { type: 'agent.started'; agent: string; input: unknown }
+  | { type: 'agent.finished'; agent: string; text: string; durationMs: number }
+  | { type: 'tool.called'; tool: string; toolCallId?: string; args: unknown }
+  | { type: 'tool.result'; tool: string; toolCallId?: string; result: unknown; durationMs: number }
+  | { type: 'step.started'; step: string; input?: unknown }
+  | { type: 'step.finished'; step: string; output?: unknown }
+  | { type: 'workflow.suspended'; runId: string; step: string; reason: string }
+  | { type: 'fallback.failed'; model: string; reason: string }
+  | { type: 'fallback.served'; model: string; attempts: Array<{ model: string; reason: string }> }
+  | { type: 'error'; source: string; message: string };
+
+export type TraceRecord = TraceEvent & {
+  // Identifies one process run, so several runs can share a file
+  run: string;
+  seq: number;
+  time: string;
+};
+
+export type TraceConsumer = (record: TraceRecord) => void;
+
+class Tracer {
+  readonly run = randomUUID();
+  private seq = 0;
+  private consumers: TraceConsumer[] = [];
+
+  subscribe(consumer: TraceConsumer): () => void {
+    this.consumers.push(consumer);
+    return () => {
+      this.consumers = this.consumers.filter(candidate => candidate !== consumer);
+    };
+  }
+
+  emit(event: TraceEvent) {
+    const record: TraceRecord = { ...event, run: this.run, seq: ++this.seq, time: new Date().toISOString() };
+    for (const consumer of this.consumers) consumer(record);
+  }
+}
+
+export const tracer = new Tracer();
+
+function preview(value: unknown, length = 200): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+export function renderTraceRecord(record: TraceRecord): string {
+  switch (record.type) {
+    case 'agent.started': {
+      return `[🤖 Agent Started] ${record.agent}: ${preview(record.input, 80)}`;
+    }
+    case 'agent.finished': {
+      return `[🏁 Agent Finished] ${record.agent} in ${record.durationMs}ms`;
+    }
+    case 'tool.called': {
+      return `[🔧 Tool Called] ${record.tool} with: ${preview(record.args)}`;
+    }
+    case 'tool.result': {
+      return `[✅ Tool Result] ${record.tool}: ${preview(record.result)}`;
+    }
+    case 'step.started': {
+      return `[▶️  Step Started] ${record.step}`;
+    }
+    case 'step.finished': {
+      return `[✅ Step Finished] ${record.step}`;
+    }
+    case 'workflow.suspended': {
+      return `[⏸️  Suspended] ${record.step} (${record.runId}): ${record.reason}`;
+    }
+    case 'fallback.failed': {
+      return `[🔀 Fallback] ${record.model} failed (${record.reason}) - trying next provider`;
+    }
+    case 'fallback.served': {
+      const after = record.attempts.map(attempt => `${attempt.model} (${attempt.reason})`).join(', ');
+      return `[🔀 Fallback] Served by ${record.model}${after ? ` after ${after}` : ''}`;
+    }
+    case 'error': {
+      return `[❌ Error] ${record.source}: ${record.message}`;
+    }
+  }
+}
+
+export const consoleRenderer: TraceConsumer = record => {
+  console.log(renderTraceRecord(record));
+};
+
+export function jsonlFileConsumer(filePath: string): TraceConsumer {
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  return record => appendFileSync(filePath, `${JSON.stringify(record)}\n`);
+}
+
+tracer.subscribe(consoleRenderer);
+if (process.env.TRACE_FILE) {
+  tracer.subscribe(jsonlFileConsumer(process.env.TRACE_FILE));
+}
+
+// 🔌 INSTRUMENTATION HELPERS
+// Each helper emits trace events and also records an OpenTelemetry span (see src/telemetry.ts)
+
+// Tool arguments and step data that carry a risk level put it on the span, so risky work can be filtered
+function setRiskLevel(span: Span, value: unknown) {
+  if (typeof value !== 'object' || value === null) return;
+
+  const { riskLevel, risk_level } = value as { riskLevel?: unknown; risk_level?: unknown };
+  const level = riskLevel ?? risk_level;
+  if (typeof level === 'string') span.setAttribute('app.risk_level', level);
+}
+
+interface AgentResult {
+  text: string;
+  response?: { modelId?: string };
+  totalUsage?: { inputTokens?: number; outputTokens?: number };
+}
+
+export async function traceAgentCall<T extends AgentResult>(agent: string, input: unknown, call: () => Promise<T>): Promise<T> {
+  return inSpan(`invoke_agent ${agent}`, { 'gen_ai.operation.name': 'invoke_agent', 'gen_ai.agent.name': agent }, async span => {
+    const start = Date.now();
+    tracer.emit({ type: 'agent.started', agent, input });
+
+    try {
+      const result = await call();
+      span.setAttributes({ 'gen_ai.response.model': result.response?.modelId, ...usageAttributes(result.totalUsage) });
+      tracer.emit({ type: 'agent.finished', agent, text: result.text, durationMs: Date.now() - start });
+      return result;
+    } catch (error) {
+      tracer.emit({ type: 'error', source: agent, message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  });
+}
+
+// Traces one tool execution, whether the agent loop or our own code runs it
+export async function traceToolCall<T>(tool: string, args: unknown, call: () => Promise<T>, toolCallId?: string): Promise<T> {
+  return inSpan(
+    `execute_tool ${tool}`,
+    { 'gen_ai.operation.name': 'execute_tool', 'gen_ai.tool.name': tool, 'gen_ai.tool.call.id': toolCallId },
+    async span => {
+      const start = Date.now();
+      setRiskLevel(span, args);
+      tracer.emit({ type: 'tool.called', tool, toolCallId, args });
+
+      try {
+        const result = await call();
+        tracer.emit({ type: 'tool.result', tool, toolCallId, result, durationMs: Date.now() - start });
+        return result;
+      } catch (error) {
+        tracer.emit({ type: 'error', source: tool, message: error instanceof Error ? error.message : String(error) });
+        throw error;
+      }
+    },
+  );
+}
+
+type ToolExecute = (context: { context?: unknown }, options?: { toolCallId?: string }) => Promise<unknown>;
+
+// Wraps each tool so its calls and results are traced under the name the model sees (its key)
+export function traceTools<T extends Record<string, { execute?: (...args: never[]) => Promise<unknown> }>>(tools: T): T {
+  return Object.fromEntries(
+    Object.entries(tools).map(([tool, definition]) => {
+      const execute = definition.execute as ToolExecute | undefined;
+      if (!execute) return [tool, definition];
+
+      const traced: ToolExecute = (context, options) =>
+        traceToolCall(tool, context.context, () => execute(context, options), options?.toolCallId);
+
+      // Keep the tool's prototype; only execute is replaced
+      return [tool, Object.assign(Object.create(Object.getPrototypeOf(definition)), definition, { execute: traced })];
+    }),
+  ) as T;
+}
+
+// Shape of the step events Mastra reports through run.watch(cb, 'watch-v2'). The callback is typed with the
+// v1 WatchEvent whatever the version, and failed step results carry an error the v2 stream types leave out.
+interface WorkflowStepEvent {
+  type: `workflow-step-${string}`;
+  payload: {
+    id?: string;
+    stepCallId?: string;
+    status?: string;
+    payload?: unknown;
+    output?: unknown;
+    error?: unknown;
+    suspendPayload?: unknown;
+  };
+}
+
+function isWorkflowStepEvent(event: unknown): event is WorkflowStepEvent {
+  if (typeof event !== 'object' || event === null || !('type' in event) || !('payload' in event)) return false;
+  return typeof event.type === 'string' && event.type.startsWith('workflow-step-') && typeof event.payload === 'object' && event.payload !== null;
+}
+
+type TracedRun = Pick<Run, 'runId' | 'workflowId' | 'watch' | 'start' | 'resume'>;
+
+// Forwards the step events of a Mastra workflow run to the trace. run.start and run.resume each get a span
+// for the whole call, with a child span per step execution; the resume span carries the same run id and
+// links to the start span when it ran in this process. Returns the same run.
+export function traceWorkflowRun<R extends TracedRun>(run: R): R {
+  const attributes = { 'mastra.workflow.id': run.workflowId, 'mastra.workflow.run_id': run.runId };
+  const stepSpans = new Map<string, Span>();
+
+  const endStepSpan = (key: string, update: (span: Span) => void) => {
+    const span = stepSpans.get(key);
+    if (!span) return;
+
+    update(span);
+    span.end();
+    stepSpans.delete(key);
+  };
+
+  const onEvent = (event: unknown) => {
+    if (!isWorkflowStepEvent(event)) return;
+    const { type, payload } = event;
+    const step = payload.id;
+    if (!step) return;
+    const key = payload.stepCallId ?? step;
+
+    if (type === 'workflow-step-start') {
+      // Step events are emitted while run.start or run.resume is active, so its span is the parent
+      const span = otelTracer.startSpan(`step ${step}`, { attributes: { ...attributes, 'mastra.step.id': step } });
+      setRiskLevel(span, payload.payload);
+      stepSpans.set(key, span);
+      tracer.emit({ type: 'step.started', step, input: payload.payload });
+    } else if (type === 'workflow-step-result' && payload.status === 'success') {
+      endStepSpan(key, span => setRiskLevel(span, payload.output));
+      tracer.emit({ type: 'step.finished', step, output: payload.output });
+    } else if (type === 'workflow-step-result' && payload.status === 'failed') {
+      const message = String(payload.error).split('\n')[0] ?? 'Step failed';
+      endStepSpan(key, span => recordSpanError(span, message));
+      tracer.emit({ type: 'error', source: step, message });
+    } else if (type === 'workflow-step-suspended' || payload.status === 'suspended') {
+      endStepSpan(key, span => span.setAttribute('mastra.step.suspended', true));
+      tracer.emit({ type: 'workflow.suspended', runId: run.runId, step, reason: JSON.stringify(payload.suspendPayload ?? {}) });
+    }
+  };
+
+  let startSpan: SpanContext | undefined;
+
+  // Watched only while start or resume runs, so the watcher does not outlive the call
+  const inRunSpan = <T extends { status: string; error?: unknown }>(resumed: boolean, call: () => Promise<T>) =>
+    inSpan(`workflow ${run.workflowId}`, { ...attributes, 'mastra.workflow.resumed': resumed }, async span => {
+      if (resumed && startSpan) span.addLink({ context: startSpan });
+      if (!resumed) startSpan = span.spanContext();
+
+      const unwatch = run.watch(onEvent, 'watch-v2');
+      try {
+        const result = await call();
+        span.setAttribute('mastra.workflow.status', result.status);
+        if (result.status === 'failed') recordSpanError(span, String(result.error).split('\n')[0]);
+        return result;
+      } finally {
+        unwatch();
+      }
+    });
+
+  const start = run.start.bind(run);
+  const resume = run.resume.bind(run);
+  run.start = (options => inRunSpan(false, () => start(options))) as R['start'];
+  run.resume = (params => inRunSpan(true, () => resume(params))) as R['resume'];
+
+  return run;
+}
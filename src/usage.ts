@@ -0,0 +1,172 @@
+import type { LanguageModelV2StreamPart, LanguageModelV2Usage, SharedV2ProviderMetadata } from '@ai-sdk/provider';
+import type { LanguageModelMiddleware } from 'ai';
+
+import { isCacheHit } from './llm-cache';
+
+// 💰 TOKEN AND COST ACCOUNTING
+// Every model call made through modelFor(agentName) is recorded with the usage the provider reported
+
+export interface UsageRecord {
+  agent: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number | undefined;
+  // Replayed from the record/replay cache: no tokens were spent (see llm-cache.ts)
+  cached: boolean;
+}
+
+interface ModelPrice {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+// Keyed by model id; local and mock models cost nothing
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'mistral-small-latest': { input: 0.1, output: 0.3 },
+  'mistral-medium-latest': { input: 0.4, output: 2 },
+  'mistral-large-latest': { input: 2, output: 6 },
+  'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  'qwen3:latest': { input: 0, output: 0 },
+  'llama3.2:latest': { input: 0, output: 0 },
+  'scripted': { input: 0, output: 0 },
+};
+
+export function estimateCost(modelId: string, inputTokens: number, outputTokens: number): number | undefined {
+  const price = MODEL_PRICES[modelId];
+  if (!price) return undefined;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+interface UsageTotals {
+  calls: number;
+  cachedCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+  unpriced: boolean;
+}
+
+function summarise(records: UsageRecord[], key: (record: UsageRecord) => string): Map<string, UsageTotals> {
+  const totals = new Map<string, UsageTotals>();
+
+  for (const record of records) {
+    const entry = totals.get(key(record)) ?? { calls: 0, cachedCalls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0, unpriced: false };
+    entry.calls++;
+    if (record.cached) {
+      entry.cachedCalls++;
+      totals.set(key(record), entry);
+      continue;
+    }
+    entry.inputTokens += record.inputTokens;
+    entry.outputTokens += record.outputTokens;
+    entry.totalTokens += record.totalTokens;
+    entry.cost += record.cost ?? 0;
+    entry.unpriced ||= record.cost === undefined;
+    totals.set(key(record), entry);
+  }
+
+  return totals;
+}
+
+function printTable(title: string, totals: Map<string, UsageTotals>) {
+  const nameWidth = Math.max(title.length, ...[...totals.keys()].map(name => name.length));
+
+  console.log(`   ${title.padEnd(nameWidth)}  ${'Calls'.padStart(5)}  ${'Prompt'.padStart(8)}  ${'Completion'.padStart(10)}  ${'Cost (USD)'.padStart(10)}`);
+  console.log(`   ${'─'.repeat(nameWidth + 41)}`);
+  for (const [name, entry] of totals) {
+    const cost = `${entry.unpriced ? '~' : ''}$${entry.cost.toFixed(6)}`;
+    console.log(`   ${name.padEnd(nameWidth)}  ${String(entry.calls).padStart(5)}  ${String(entry.inputTokens).padStart(8)}  ${String(entry.outputTokens).padStart(10)}  ${cost.padStart(10)}`);
+  }
+}
+
+class UsageTracker {
+  private records: UsageRecord[] = [];
+
+  record(agent: string, model: string, usage: LanguageModelV2Usage, cached = false) {
+    const modelId = model.slice(model.indexOf(':') + 1);
+    const inputTokens = usage.inputTokens ?? 0;
+    const outputTokens = usage.outputTokens ?? 0;
+
+    this.records.push({
+      agent,
+      model,
+      inputTokens,
+      outputTokens,
+      totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+      cost: cached ? 0 : estimateCost(modelId, inputTokens, outputTokens),
+      cached,
+    });
+  }
+
+  getRecords(): readonly UsageRecord[] {
+    return this.records;
+  }
+
+  reset() {
+    this.records = [];
+  }
+
+  printSummary() {
+    console.log('\n💰 Token Usage Summary');
+    console.log('======================');
+
+    if (this.records.length === 0) {
+      console.log('   No model calls recorded.');
+      return;
+    }
+
+    printTable('Agent', summarise(this.records, record => record.agent));
+    console.log('');
+    printTable('Model', summarise(this.records, record => record.model));
+
+    const total = summarise(this.records, () => 'total').get('total')!;
+    console.log(`\n   Total: ${total.calls} calls, ${total.totalTokens} tokens, ${total.unpriced ? '~' : ''}$${total.cost.toFixed(6)}`);
+    if (total.cachedCalls > 0) {
+      console.log(`   (${total.cachedCalls} of the calls were replayed from the cache; their tokens were not spent and are not counted)`);
+    }
+    if (total.unpriced) {
+      console.log('   (~ some models have no entry in MODEL_PRICES and were counted as free)');
+    }
+  }
+}
+
+export const usageTracker = new UsageTracker();
+
+// The fallback model reports the provider that actually served the call
+function servedModel(defaultModel: string, providerMetadata: SharedV2ProviderMetadata | undefined): string {
+  const servedBy = providerMetadata?.fallback?.servedBy;
+  return typeof servedBy === 'string' ? servedBy : defaultModel;
+}
+
+export function usageTrackingMiddleware(agentName: string): LanguageModelMiddleware {
+  return {
+    wrapGenerate: async ({ doGenerate, model }) => {
+      const result = await doGenerate();
+      usageTracker.record(agentName, servedModel(`${model.provider}:${model.modelId}`, result.providerMetadata), result.usage, isCacheHit(result.providerMetadata));
+      return result;
+    },
+
+    wrapStream: async ({ doStream, model }) => {
+      const { stream, ...rest } = await doStream();
+
+      return {
+        ...rest,
+        stream: stream.pipeThrough(
+          new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+            transform(part, controller) {
+              if (part.type === 'finish') {
+                usageTracker.record(agentName, servedModel(`${model.provider}:${model.modelId}`, part.providerMetadata), part.usage, isCacheHit(part.providerMetadata));
+              }
+              controller.enqueue(part);
+            },
+          }),
+        ),
+      };
+    },
+  };
+}
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Unit tests never reach a provider; importing a factor that builds agents only needs a model to resolve
+    env: { MODEL: 'mock' },
+  },
+});